@@ -18,7 +18,7 @@ echo ""
 
 # 1. Create runtime directories
 echo "Creating $ELS_HOME..."
-mkdir -p "$ELS_HOME/articles" "$ELS_HOME/summaries" "$ELS_HOME/html"
+mkdir -p "$ELS_HOME/articles" "$ELS_HOME/summaries" "$ELS_HOME/html" "$ELS_HOME/prompts"
 
 # 2. Write CLAUDE.md for discussion sessions
 cat > "$ELS_HOME/CLAUDE.md" << 'CLAUDE_EOF'
@@ -30,7 +30,7 @@ All content is stored in this directory.
 ## Directory Structure
 
 - `articles/` - Full extracted text (markdown with YAML frontmatter)
-- `summaries/` - AI-generated summaries (markdown with YAML frontmatter)
+- `summaries/` - AI-generated summaries (markdown with YAML frontmatter, plus a structured `.json` for most)
 
 ## Frontmatter Format
 
@@ -0,0 +1,629 @@
+import { Database } from "bun:sqlite";
+import { mkdir, readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { HOME, ARTICLES_DIR, SUMMARIES_DIR, HTML_DIR } from "./paths";
+import { parseFrontmatter, parseList, type Meta } from "./frontmatter";
+import { normalizeUrl } from "./url";
+import { detectLanguage } from "./lang";
+
+// Persistent index of the library so lookups don't have to read every markdown file.
+// The markdown files stay the source of truth — the catalog can always be rebuilt from them.
+const DB_PATH = join(HOME, "library.db");
+
+// Bump when the schema changes; a mismatch drops and rebuilds the catalog
+const SCHEMA_VERSION = 6;
+
+/** Named parameters ($name) for a query. */
+type Bindings = Record<string, string | number>;
+
+export interface CatalogEntry {
+  slug: string;
+  url: string;
+  normUrl: string;
+  domain: string;
+  type: Meta["type"];
+  style: string;
+  /** Summary language; detected for summaries from before languages were recorded, "" when that fails. */
+  lang: string;
+  /** Slug this entry's summary was translated from; "" for summaries of the source itself. */
+  translatedFrom: string;
+  title: string;
+  date: string;
+  words: number;
+  articlePath: string | null;
+  summaryPath: string | null;
+  htmlPath: string;
+  /** Last time the summary (or article) was written, in ms since epoch. */
+  updated: number;
+}
+
+interface EntryRow {
+  slug: string;
+  url: string;
+  norm_url: string;
+  domain: string;
+  type: string;
+  style: string;
+  lang: string;
+  translated_from: string;
+  title: string;
+  date: string;
+  words: number;
+  article_path: string | null;
+  summary_path: string | null;
+  html_path: string;
+  updated: number;
+}
+
+let db: Database | null = null;
+
+function toEntry(row: EntryRow): CatalogEntry {
+  return {
+    slug: row.slug,
+    url: row.url,
+    normUrl: row.norm_url,
+    domain: row.domain,
+    type: row.type as Meta["type"],
+    style: row.style,
+    lang: row.lang,
+    translatedFrom: row.translated_from,
+    title: row.title,
+    date: row.date,
+    words: row.words,
+    articlePath: row.article_path,
+    summaryPath: row.summary_path,
+    htmlPath: row.html_path,
+    updated: row.updated,
+  };
+}
+
+function createSchema(db: Database): void {
+  db.run(`CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+  db.run(`CREATE TABLE IF NOT EXISTS entries (
+    slug TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    norm_url TEXT NOT NULL,
+    domain TEXT NOT NULL DEFAULT '',
+    type TEXT NOT NULL,
+    style TEXT NOT NULL DEFAULT 'default',
+    lang TEXT NOT NULL DEFAULT '',
+    translated_from TEXT NOT NULL DEFAULT '',
+    title TEXT NOT NULL,
+    date TEXT NOT NULL,
+    words INTEGER NOT NULL DEFAULT 0,
+    article_path TEXT,
+    summary_path TEXT,
+    html_path TEXT NOT NULL,
+    updated REAL NOT NULL
+  )`);
+  db.run(`CREATE INDEX IF NOT EXISTS entries_norm_url ON entries (norm_url)`);
+  db.run(`CREATE INDEX IF NOT EXISTS entries_updated ON entries (updated)`);
+  // Extra normalized URLs that identify an entry (canonical links, redirect targets)
+  db.run(`CREATE TABLE IF NOT EXISTS aliases (
+    slug TEXT NOT NULL,
+    norm_url TEXT NOT NULL,
+    PRIMARY KEY (slug, norm_url)
+  )`);
+  db.run(`CREATE INDEX IF NOT EXISTS aliases_norm_url ON aliases (norm_url)`);
+  // Full-text index over article and summary bodies, one row per file
+  db.run(`CREATE VIRTUAL TABLE IF NOT EXISTS docs USING fts5(
+    slug UNINDEXED,
+    kind UNINDEXED,
+    title,
+    body,
+    tokenize = 'porter unicode61'
+  )`);
+}
+
+/** Hostname without a leading "www.", used for domain filters. */
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function getMeta(db: Database, key: string): string | null {
+  const row = db
+    .query<{ value: string }, [string]>(`SELECT value FROM meta WHERE key = ?`)
+    .get(key);
+  return row?.value ?? null;
+}
+
+function setMeta(db: Database, key: string, value: string): void {
+  db.run(
+    `INSERT INTO meta (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    [key, value],
+  );
+}
+
+async function readMdFiles(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir)).filter((f) => f.endsWith(".md"));
+  } catch {
+    return [];
+  }
+}
+
+/** "mtime:size" for each indexed file, by path. */
+type Signature = Record<string, string>;
+
+async function fileSignature(path: string): Promise<string | null> {
+  try {
+    const s = await stat(path);
+    return `${s.mtimeMs}:${s.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every markdown file with its mtime and size: a file added, removed or edited in place
+ * changes the signature, so it tells us the catalog is stale.
+ */
+async function dirSignature(): Promise<Signature> {
+  const signature: Signature = {};
+  for (const dir of [ARTICLES_DIR, SUMMARIES_DIR]) {
+    for (const file of await readMdFiles(dir)) {
+      const path = join(dir, file);
+      const sig = await fileSignature(path);
+      if (sig) signature[path] = sig;
+    }
+  }
+  return signature;
+}
+
+/** The signature the catalog was last synced with; empty for catalogs from before per-file signatures. */
+function storedSignature(db: Database): Signature {
+  let data: unknown;
+  try {
+    data = JSON.parse(getMeta(db, "signature") || "{}");
+  } catch {
+    return {};
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return {};
+  return Object.fromEntries(Object.entries(data).filter(([, v]) => typeof v === "string"));
+}
+
+function sameSignature(a: Signature, b: Signature): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+}
+
+/** Take our own writes to `paths` into the stored signature, leaving every other file's as it was. */
+async function advanceSignature(db: Database, paths: string[]): Promise<void> {
+  const signature = storedSignature(db);
+  for (const path of paths) {
+    const sig = await fileSignature(path);
+    if (sig) signature[path] = sig;
+    else delete signature[path];
+  }
+  setMeta(db, "signature", JSON.stringify(signature));
+}
+
+function insertAliases(db: Database, slug: string, urls: string[]): void {
+  for (const url of urls) {
+    db.run(`INSERT OR IGNORE INTO aliases (slug, norm_url) VALUES (?, ?)`, [slug, normalizeUrl(url)]);
+  }
+}
+
+/** Re-index every article and summary from the markdown files on disk. */
+export async function rebuildCatalog(): Promise<void> {
+  const db = await openDb();
+
+  const rows = new Map<string, EntryRow>();
+  const docs: { slug: string; kind: string; title: string; body: string }[] = [];
+  const aliases = new Map<string, string[]>();
+  const load = async (dir: string, kind: "article" | "summary") => {
+    for (const file of await readMdFiles(dir)) {
+      const slug = file.replace(/\.md$/, "");
+      const path = join(dir, file);
+      let text: string;
+      let mtime: number;
+      try {
+        text = await readFile(path, "utf-8");
+        mtime = (await stat(path)).mtimeMs;
+      } catch {
+        continue;
+      }
+      const { fields, body } = parseFrontmatter(text);
+      const existing = rows.get(slug);
+      const row: EntryRow = existing ?? {
+        slug,
+        url: fields.url || "",
+        norm_url: normalizeUrl(fields.url || ""),
+        domain: domainOf(fields.url || ""),
+        type: fields.type || "web",
+        style: fields.style || "default",
+        lang: "",
+        translated_from: "",
+        title: fields.title || slug,
+        date: fields.date || new Date(mtime).toISOString(),
+        words: parseInt(fields.words || "0") || 0,
+        article_path: null,
+        summary_path: null,
+        html_path: join(HTML_DIR, `${slug}.html`),
+        updated: mtime,
+      };
+      if (kind === "article") {
+        row.article_path = path;
+        if (!existing?.summary_path) row.updated = mtime;
+      } else {
+        row.summary_path = path;
+        row.updated = mtime;
+        // Languages are recorded on summaries only; older ones get theirs detected
+        row.lang = fields.lang || detectLanguage(body) || "";
+        row.translated_from = fields.translated_from || "";
+      }
+      rows.set(slug, row);
+      if (!aliases.has(slug)) aliases.set(slug, parseList(fields.aliases));
+      docs.push({ slug, kind, title: fields.title || slug, body });
+    }
+  };
+
+  // Articles first so their frontmatter wins — it's what dedup has always read
+  await load(ARTICLES_DIR, "article");
+  await load(SUMMARIES_DIR, "summary");
+
+  const insert = db.prepare(
+    `INSERT INTO entries (slug, url, norm_url, domain, type, style, lang, translated_from, title, date, words, article_path, summary_path, html_path, updated)
+     VALUES ($slug, $url, $norm_url, $domain, $type, $style, $lang, $translated_from, $title, $date, $words, $article_path, $summary_path, $html_path, $updated)`,
+  );
+  const insertDoc = db.prepare(
+    `INSERT INTO docs (slug, kind, title, body) VALUES (?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    db.run(`DELETE FROM entries`);
+    db.run(`DELETE FROM docs`);
+    db.run(`DELETE FROM aliases`);
+    for (const row of rows.values()) {
+      insert.run({
+        $slug: row.slug,
+        $url: row.url,
+        $norm_url: row.norm_url,
+        $domain: row.domain,
+        $type: row.type,
+        $style: row.style,
+        $lang: row.lang,
+        $translated_from: row.translated_from,
+        $title: row.title,
+        $date: row.date,
+        $words: row.words,
+        $article_path: row.article_path,
+        $summary_path: row.summary_path,
+        $html_path: row.html_path,
+        $updated: row.updated,
+      });
+    }
+    for (const doc of docs) {
+      insertDoc.run(doc.slug, doc.kind, doc.title, doc.body);
+    }
+    for (const [slug, urls] of aliases) {
+      insertAliases(db, slug, urls);
+    }
+  })();
+
+  setMeta(db, "signature", JSON.stringify(await dirSignature()));
+}
+
+async function openDb(): Promise<Database> {
+  if (db) return db;
+  await mkdir(HOME, { recursive: true });
+  db = new Database(DB_PATH, { create: true });
+  db.run(`PRAGMA journal_mode = WAL`);
+  db.run(`PRAGMA busy_timeout = 5000`);
+  createSchema(db);
+
+  if (getMeta(db, "schema") !== String(SCHEMA_VERSION)) {
+    db.run(`DROP TABLE IF EXISTS entries`);
+    db.run(`DROP TABLE IF EXISTS docs`);
+    db.run(`DROP TABLE IF EXISTS aliases`);
+    createSchema(db);
+    setMeta(db, "schema", String(SCHEMA_VERSION));
+    setMeta(db, "signature", "{}");
+  }
+  return db;
+}
+
+/**
+ * Open the catalog, rebuilding it first if files were added, removed or edited behind our back.
+ * `own` are the files the caller is writing or deleting itself; changes to them don't count.
+ */
+async function openCatalog(own: string[] = []): Promise<Database> {
+  const db = await openDb();
+  const stored = storedSignature(db);
+  const current = await dirSignature();
+  for (const path of own) {
+    delete stored[path];
+    delete current[path];
+  }
+  if (!sameSignature(stored, current)) {
+    await rebuildCatalog();
+  }
+  return db;
+}
+
+/** Record a saved article or summary. Called by storage right after the file is written. */
+export async function recordFile(
+  slug: string,
+  kind: "article" | "summary",
+  path: string,
+  meta: Meta,
+  body: string,
+): Promise<void> {
+  const db = await openCatalog([path]);
+  db.query(
+    `INSERT INTO entries (slug, url, norm_url, domain, type, style, lang, translated_from, title, date, words, article_path, summary_path, html_path, updated)
+     VALUES ($slug, $url, $norm_url, $domain, $type, $style, $lang, $translated_from, $title, $date, $words, $article_path, $summary_path, $html_path, $updated)
+     ON CONFLICT(slug) DO UPDATE SET
+       url = excluded.url,
+       norm_url = excluded.norm_url,
+       domain = excluded.domain,
+       type = excluded.type,
+       style = excluded.style,
+       lang = CASE WHEN $kind = 'summary' THEN excluded.lang ELSE entries.lang END,
+       translated_from = CASE WHEN $kind = 'summary' THEN excluded.translated_from ELSE entries.translated_from END,
+       title = excluded.title,
+       words = excluded.words,
+       article_path = COALESCE(excluded.article_path, entries.article_path),
+       summary_path = COALESCE(excluded.summary_path, entries.summary_path),
+       updated = excluded.updated`,
+  ).run({
+    $slug: slug,
+    $url: meta.url,
+    $norm_url: normalizeUrl(meta.url),
+    $domain: domainOf(meta.url),
+    $type: meta.type,
+    $style: meta.style || "default",
+    $lang: kind === "summary" ? meta.lang || "" : "",
+    $translated_from: kind === "summary" ? meta.translatedFrom || "" : "",
+    $kind: kind,
+    $title: meta.title,
+    $date: new Date().toISOString(),
+    $words: meta.words,
+    $article_path: kind === "article" ? path : null,
+    $summary_path: kind === "summary" ? path : null,
+    $html_path: join(HTML_DIR, `${slug}.html`),
+    $updated: Date.now(),
+  });
+  if (meta.aliases) {
+    db.run(`DELETE FROM aliases WHERE slug = ?`, [slug]);
+    insertAliases(db, slug, meta.aliases);
+  }
+  db.run(`DELETE FROM docs WHERE slug = ? AND kind = ?`, [slug, kind]);
+  db.run(`INSERT INTO docs (slug, kind, title, body) VALUES (?, ?, ?, ?)`, [
+    slug,
+    kind,
+    meta.title,
+    body,
+  ]);
+  // Our own write isn't staleness, but anything else that changed still is
+  await advanceSignature(db, [path]);
+}
+
+export async function getEntry(slug: string): Promise<CatalogEntry | null> {
+  const db = await openCatalog();
+  const row = db
+    .query<EntryRow, [string]>(`SELECT * FROM entries WHERE slug = ?`)
+    .get(slug);
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * Most recently updated entry for a URL or any of its aliases, optionally restricted to a type
+ * and style. With a language, only summaries in that language match;
+ * without one, translations are skipped in favour of the summary of the source itself.
+ */
+export async function lookupUrl(
+  url: string,
+  type?: Meta["type"],
+  style?: string,
+  lang?: string,
+): Promise<CatalogEntry | null> {
+  const db = await openCatalog();
+  const params: Bindings = { $needle: normalizeUrl(url) };
+  const where = ["(norm_url = $needle OR slug IN (SELECT slug FROM aliases WHERE norm_url = $needle))"];
+  if (type) {
+    where.push("type = $type");
+    params.$type = type;
+  }
+  if (style) {
+    where.push("style = $style");
+    params.$style = style;
+  }
+  if (lang) {
+    where.push("lang = $lang");
+    params.$lang = lang;
+  } else {
+    where.push("translated_from = ''");
+  }
+  const row = db
+    .query<EntryRow, Bindings>(
+      `SELECT * FROM entries WHERE ${where.join(" AND ")} ORDER BY updated DESC LIMIT 1`,
+    )
+    .get(params);
+  return row ? toEntry(row) : null;
+}
+
+/** The translation of a slug's summary into a language, if one was made. */
+export async function lookupTranslation(slug: string, lang: string): Promise<CatalogEntry | null> {
+  const db = await openCatalog();
+  const row = db
+    .query<EntryRow, [string, string]>(
+      `SELECT * FROM entries WHERE translated_from = ? AND lang = ? ORDER BY updated DESC LIMIT 1`,
+    )
+    .get(slug, lang);
+  return row ? toEntry(row) : null;
+}
+
+/** The entry whose summary was written most recently. */
+export async function latestEntry(): Promise<CatalogEntry | null> {
+  const db = await openCatalog();
+  const row = db
+    .query<EntryRow, []>(
+      `SELECT * FROM entries WHERE summary_path IS NOT NULL ORDER BY updated DESC LIMIT 1`,
+    )
+    .get();
+  return row ? toEntry(row) : null;
+}
+
+export interface EntryFilters {
+  type?: Meta["type"];
+  style?: string;
+  /** Inclusive YYYY-MM-DD bounds on the entry date. */
+  since?: string;
+  until?: string;
+  domain?: string;
+}
+
+export interface SearchFilters extends EntryFilters {
+  limit?: number;
+}
+
+/** Build the WHERE conditions for entry filters against the `e` alias. */
+function filterClause(
+  filters: EntryFilters,
+  params: Bindings,
+): string[] {
+  const where: string[] = [];
+  if (filters.type) {
+    where.push("e.type = $type");
+    params.$type = filters.type;
+  }
+  if (filters.style) {
+    where.push("e.style = $style");
+    params.$style = filters.style;
+  }
+  if (filters.since) {
+    where.push("substr(e.date, 1, 10) >= $since");
+    params.$since = filters.since;
+  }
+  if (filters.until) {
+    where.push("substr(e.date, 1, 10) <= $until");
+    params.$until = filters.until;
+  }
+  if (filters.domain) {
+    const domain = filters.domain.replace(/^www\./, "");
+    where.push("(e.domain = $domain OR e.domain LIKE $subdomain)");
+    params.$domain = domain;
+    params.$subdomain = `%.${domain}`;
+  }
+  return where;
+}
+
+export interface SearchHit {
+  entry: CatalogEntry;
+  /** Which file matched best. */
+  kind: "article" | "summary";
+  /** Excerpt around the match, with hits wrapped in HIT_START / HIT_END. */
+  snippet: string;
+  /** BM25 score (lower is a better match). */
+  score: number;
+}
+
+export const HIT_START = "\x02";
+export const HIT_END = "\x03";
+
+/** Quote each term so user input can't trip FTS5 query syntax. A trailing * keeps prefix matching. */
+function ftsQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => {
+      const prefix = term.endsWith("*");
+      const bare = term.replace(/\*+$/, "").replace(/"/g, '""');
+      return bare ? `"${bare}"${prefix ? "*" : ""}` : "";
+    })
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Ranked full-text search over articles and summaries. One hit per slug, best match first. */
+export async function searchCatalog(
+  query: string,
+  filters: SearchFilters = {},
+): Promise<SearchHit[]> {
+  const match = ftsQuery(query);
+  if (!match) return [];
+  const db = await openCatalog();
+
+  const params: Bindings = { $match: match };
+  const where = ["docs MATCH $match", ...filterClause(filters, params)];
+
+  const limit = filters.limit ?? 20;
+  // Title matches count for more than body matches; slug and kind are unindexed
+  const rows = db
+    .query<EntryRow & { kind: string; score: number; snip: string }, Bindings>(
+      `SELECT e.*, docs.kind AS kind,
+         bm25(docs, 0.0, 0.0, 10.0, 1.0) AS score,
+         snippet(docs, 3, '${HIT_START}', '${HIT_END}', '…', 16) AS snip
+       FROM docs JOIN entries e ON e.slug = docs.slug
+       WHERE ${where.join(" AND ")}
+       ORDER BY score
+       LIMIT ${limit * 2}`,
+    )
+    .all(params);
+
+  const hits: SearchHit[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.slug)) continue;
+    seen.add(row.slug);
+    hits.push({
+      entry: toEntry(row),
+      kind: row.kind as SearchHit["kind"],
+      snippet: row.snip.replace(/\s+/g, " ").trim(),
+      score: row.score,
+    });
+    if (hits.length >= limit) break;
+  }
+  return hits;
+}
+
+export type EntrySort = "date" | "title" | "words";
+
+/** A page of entries matching the filters, plus the total match count for pagination. */
+export async function listEntries(
+  filters: EntryFilters & {
+    sort?: EntrySort;
+    ascending?: boolean;
+    limit?: number;
+    offset?: number;
+  } = {},
+): Promise<{ entries: CatalogEntry[]; total: number }> {
+  const db = await openCatalog();
+  const params: Bindings = {};
+  const where = filterClause(filters, params);
+  const whereSql = where.length ? `WHERE ${where.join(" AND ")}` : "";
+
+  const column = { date: "e.date", title: "e.title COLLATE NOCASE", words: "e.words" }[
+    filters.sort ?? "date"
+  ];
+  // Newest / biggest first by default, except titles which read naturally A→Z
+  const ascending = filters.ascending ?? filters.sort === "title";
+  const order = `${column} ${ascending ? "ASC" : "DESC"}, e.slug`;
+
+  const total =
+    db
+      .query<{ n: number }, Bindings>(`SELECT COUNT(*) AS n FROM entries e ${whereSql}`)
+      .get(params)?.n ?? 0;
+  const rows = db
+    .query<EntryRow, Bindings>(
+      `SELECT e.* FROM entries e ${whereSql} ORDER BY ${order}
+       LIMIT ${filters.limit ?? -1} OFFSET ${filters.offset ?? 0}`,
+    )
+    .all(params);
+  return { entries: rows.map(toEntry), total };
+}
+
+/** Drop an entry from the catalog. The caller is responsible for deleting the files. */
+export async function removeEntry(slug: string): Promise<void> {
+  const paths = [join(ARTICLES_DIR, `${slug}.md`), join(SUMMARIES_DIR, `${slug}.md`)];
+  const db = await openCatalog(paths);
+  db.run(`DELETE FROM entries WHERE slug = ?`, [slug]);
+  db.run(`DELETE FROM docs WHERE slug = ?`, [slug]);
+  db.run(`DELETE FROM aliases WHERE slug = ?`, [slug]);
+  await advanceSignature(db, paths);
+}
@@ -1,3 +1,5 @@
+import { normalizeUrl } from "./url";
+
 const CDP_PORT = 2262;
 const EVAL_TIMEOUT = 10_000;
 
@@ -22,7 +24,11 @@ export async function getActiveTab(): Promise<Tab> {
 }
 
 export function findTabByUrl(tabs: Tab[], url: string): Tab | undefined {
-  return tabs.find((t) => t.url === url || t.url.startsWith(url));
+  const exact = tabs.find((t) => t.url === url || t.url.startsWith(url));
+  if (exact) return exact;
+  // Same page behind tracking params, www/mobile hosts, etc.
+  const needle = normalizeUrl(url);
+  return tabs.find((t) => normalizeUrl(t.url) === needle);
 }
 
 function cdpEval(tabId: string, expression: string): Promise<string> {
@@ -75,18 +81,43 @@ export async function extractText(tabId: string): Promise<string> {
   return cdpEval(tabId, "document.body.innerText");
 }
 
-const QB_BIN = process.env.QUTEBROWSER_BIN || `${process.env.HOME}/Library/Python/3.14/bin/qutebrowser`;
+/** The page's <link rel="canonical"> href, resolved to an absolute URL. Empty if there is none. */
+export async function extractCanonical(tabId: string): Promise<string> {
+  try {
+    return await cdpEval(
+      tabId,
+      `document.querySelector('link[rel~="canonical" i]')?.href || ""`,
+    );
+  } catch {
+    return "";
+  }
+}
 
-/** Open a URL in qutebrowser and wait for it to load. Returns the tab. */
-export async function openUrl(url: string): Promise<Tab> {
-  const before = new Set((await listTabs()).map((t) => t.id));
+/** The document's MIME type, e.g. "application/pdf" for a tab showing a PDF. Empty if unknown. */
+export async function extractContentType(tabId: string): Promise<string> {
+  try {
+    return await cdpEval(tabId, "document.contentType");
+  } catch {
+    return "";
+  }
+}
+
+const QB_BIN = process.env.QUTEBROWSER_BIN || `${process.env.HOME}/Library/Python/3.14/bin/qutebrowser`;
 
-  // Open in existing qutebrowser instance via IPC
-  const proc = Bun.spawn([QB_BIN, "--target", "tab-bg-silent", url], {
+/** Open a URL in the running qutebrowser instance via IPC. `target` is qutebrowser's --target. */
+export async function spawnQutebrowser(url: string, target = "tab"): Promise<void> {
+  const proc = Bun.spawn([QB_BIN, "--target", target, url], {
     stdout: "ignore",
     stderr: "ignore",
   });
   await proc.exited;
+}
+
+/** Open a URL in qutebrowser and wait for it to load. Returns the tab. */
+export async function openUrl(url: string): Promise<Tab> {
+  const before = new Set((await listTabs()).map((t) => t.id));
+
+  await spawnQutebrowser(url, "tab-bg-silent");
 
   // Poll until the new tab appears and loads
   const maxWait = 20_000;
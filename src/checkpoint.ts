@@ -0,0 +1,37 @@
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { CHECKPOINTS_DIR } from "./paths";
+
+function hash(...parts: string[]): string {
+  return createHash("sha256").update(parts.join("\0")).digest("hex").slice(0, 16);
+}
+
+/**
+ * On-disk cache of partial results for one map-reduce run, so a failed or interrupted run
+ * resumes from the chunks that already finished. Entries are keyed by everything that shapes
+ * the output (chunk text, model, prompt), so changed content or settings never reuse stale work.
+ */
+export interface Checkpoint {
+  get(...key: string[]): Promise<string | null>;
+  put(value: string, ...key: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export function openCheckpoint(...run: string[]): Checkpoint {
+  const dir = join(CHECKPOINTS_DIR, hash(...run));
+  const path = (key: string[]) => join(dir, `${hash(...key)}.md`);
+  return {
+    async get(...key) {
+      const file = Bun.file(path(key));
+      return (await file.exists()) ? file.text() : null;
+    },
+    async put(value, ...key) {
+      await mkdir(dir, { recursive: true });
+      await Bun.write(path(key), value);
+    },
+    async clear() {
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import type { SitePage } from "./site";
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Split pages into chunks where each chunk's total words < maxWords. */
+export function chunkPages(pages: SitePage[], maxWords: number): SitePage[][] {
+  const chunks: SitePage[][] = [];
+  let current: SitePage[] = [];
+  let currentWords = 0;
+
+  for (const page of pages) {
+    if (currentWords + page.words > maxWords && current.length > 0) {
+      chunks.push(current);
+      current = [];
+      currentWords = 0;
+    }
+    current.push(page);
+    currentWords += page.words;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/** Short line standing on its own, the way headings come out of innerText. */
+function looksLikeHeading(unit: string): boolean {
+  return !unit.includes("\n") && unit.length < 80 && !/[.,;:!?]$/.test(unit.trim());
+}
+
+/** Break a unit that is bigger than a whole chunk at sentence ends, then at word boundaries. */
+function splitOversized(unit: string, maxWords: number): string[] {
+  const sentences = unit.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [unit];
+  const parts: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+  for (const sentence of sentences) {
+    const words = countWords(sentence);
+    if (words > maxWords) {
+      // A single run-on "sentence" (e.g. unpunctuated captions): cut by word count
+      const all = sentence.split(/\s+/).filter(Boolean);
+      for (let i = 0; i < all.length; i += maxWords) {
+        parts.push(all.slice(i, i + maxWords).join(" "));
+      }
+      continue;
+    }
+    if (currentWords + words > maxWords && current.length > 0) {
+      parts.push(current.join("").trim());
+      current = [];
+      currentWords = 0;
+    }
+    current.push(sentence);
+    currentWords += words;
+  }
+  if (current.length > 0) parts.push(current.join("").trim());
+  return parts;
+}
+
+/**
+ * Split long text into chunks of at most maxWords on natural boundaries.
+ * Web content splits between paragraphs, preferring to start a chunk at a heading once the
+ * current one is reasonably full. Transcripts split between caption lines, i.e. into time windows.
+ */
+export function chunkText(
+  text: string,
+  maxWords: number,
+  mode: "paragraphs" | "lines",
+): string[] {
+  if (countWords(text) <= maxWords) return [text];
+
+  const separator = mode === "paragraphs" ? "\n\n" : "\n";
+  const units = (mode === "paragraphs" ? text.split(/\n\s*\n/) : text.split("\n"))
+    .map((u) => u.trim())
+    .filter(Boolean)
+    .flatMap((u) => (countWords(u) > maxWords ? splitOversized(u, maxWords) : [u]));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+  for (const unit of units) {
+    const words = countWords(unit);
+    const full = currentWords + words > maxWords;
+    const headingBreak =
+      mode === "paragraphs" && looksLikeHeading(unit) && currentWords > maxWords * 0.6;
+    if ((full || headingBreak) && current.length > 0) {
+      chunks.push(current.join(separator));
+      current = [];
+      currentWords = 0;
+    }
+    current.push(unit);
+    currentWords += words;
+  }
+  if (current.length > 0) chunks.push(current.join(separator));
+  return chunks;
+}
+
+/** Run fn over items with at most `limit` calls in flight. Results keep the input order. */
+export async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,191 @@
+import { parseLang } from "./lang";
+
+/** Thrown for bad command-line input. Printed with the command's usage line instead of a stack. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface Flag {
+  /** Long name, without the leading "--". */
+  name: string;
+  /** Single-letter alias, without the leading "-". */
+  short?: string;
+  /** Value placeholder for help output. Flags without one are booleans. */
+  arg?: string;
+  description: string;
+}
+
+export interface ParsedArgs {
+  flags: Record<string, string | boolean | undefined>;
+  positionals: string[];
+}
+
+export interface Command {
+  name: string;
+  usage: string;
+  description: string;
+  flags: Flag[];
+  run(args: ParsedArgs): Promise<void>;
+}
+
+const HELP_FLAG: Flag = { name: "help", short: "h", description: "Show this help" };
+
+/** Levenshtein distance, used to suggest the flag a typo was probably meant to be. */
+function distance(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+}
+
+function unknownFlag(raw: string, flags: Flag[]): UsageError {
+  const name = raw.replace(/^-+/, "");
+  const closest = flags
+    .map((f) => ({ f, d: distance(name, f.name) }))
+    .sort((a, b) => a.d - b.d)[0];
+  const hint = closest && closest.d <= 2 ? ` (did you mean --${closest.f.name}?)` : "";
+  return new UsageError(`Unknown option: ${raw}${hint}`);
+}
+
+/**
+ * Parse argv against a command's flags. Supports --name value, --name=value, -x,
+ * combined short booleans (-dn), and "--" to end option parsing. A bare "-" is a positional.
+ */
+export function parseArgs(argv: string[], flags: Flag[]): ParsedArgs {
+  const all = [...flags, HELP_FLAG];
+  const byLong = new Map(all.map((f) => [f.name, f]));
+  const byShort = new Map(all.filter((f) => f.short).map((f) => [f.short!, f]));
+  const parsed: ParsedArgs = { flags: {}, positionals: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === "--") {
+      parsed.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      const name = eq > 0 ? arg.slice(2, eq) : arg.slice(2);
+      const flag = byLong.get(name);
+      if (!flag) throw unknownFlag(eq > 0 ? arg.slice(0, eq) : arg, all);
+      if (!flag.arg) {
+        if (eq > 0) throw new UsageError(`--${name} does not take a value`);
+        parsed.flags[flag.name] = true;
+        continue;
+      }
+      const value = eq > 0 ? arg.slice(eq + 1) : argv[++i];
+      if (value === undefined) throw new UsageError(`--${name} expects ${flag.arg}`);
+      parsed.flags[flag.name] = value;
+      continue;
+    }
+
+    if (arg.startsWith("-") && arg.length > 1) {
+      const letters = arg.slice(1);
+      for (let j = 0; j < letters.length; j++) {
+        const flag = byShort.get(letters[j]);
+        if (!flag) throw unknownFlag(`-${letters[j]}`, all);
+        if (!flag.arg) {
+          parsed.flags[flag.name] = true;
+          continue;
+        }
+        // A value-taking short flag consumes the rest of the cluster or the next arg
+        const rest = letters.slice(j + 1);
+        const value = rest || argv[++i];
+        if (value === undefined) throw new UsageError(`-${flag.short} expects ${flag.arg}`);
+        parsed.flags[flag.name] = value;
+        break;
+      }
+      continue;
+    }
+
+    parsed.positionals.push(arg);
+  }
+
+  return parsed;
+}
+
+/** Read a string flag. */
+export function str(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Read a positive integer flag, with a default. */
+export function int(args: ParsedArgs, name: string, fallback: number): number {
+  const value = str(args, name);
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${name} expects a positive integer`);
+  return n;
+}
+
+/** Read a string flag restricted to a fixed set of values. */
+export function oneOf<T extends string>(
+  args: ParsedArgs,
+  name: string,
+  choices: readonly T[],
+): T | undefined {
+  const value = str(args, name);
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+/** Read a YYYY-MM-DD date flag. */
+export function date(args: ParsedArgs, name: string): string | undefined {
+  const value = str(args, name);
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new UsageError(`--${name} expects YYYY-MM-DD`);
+  }
+  return value;
+}
+
+function langValue(name: string, value: string): string {
+  try {
+    return parseLang(value);
+  } catch (err: any) {
+    throw new UsageError(`--${name}: ${err.message}`);
+  }
+}
+
+/** Read a language flag ("de", "pt-BR", "german") as a normalized code. */
+export function lang(args: ParsedArgs, name: string): string | undefined {
+  const value = str(args, name);
+  return value === undefined ? undefined : langValue(name, value);
+}
+
+/** Read a comma-separated list of languages. */
+export function langs(args: ParsedArgs, name: string): string[] {
+  const value = str(args, name);
+  return value ? value.split(",").filter(Boolean).map((v) => langValue(name, v.trim())) : [];
+}
+
+export function formatHelp(command: Command): string {
+  const rows = [...command.flags, HELP_FLAG].map((f) => {
+    const names = `${f.short ? `-${f.short}, ` : "    "}--${f.name}${f.arg ? ` ${f.arg}` : ""}`;
+    return { names, description: f.description };
+  });
+  const width = Math.max(...rows.map((r) => r.names.length));
+  return [
+    `Usage: ${command.usage}`,
+    "",
+    command.description,
+    "",
+    "Options:",
+    ...rows.map((r) => `  ${r.names.padEnd(width)}  ${r.description}`),
+  ].join("\n");
+}
@@ -0,0 +1,38 @@
+import { runCompare } from "../run";
+import { UsageError, str, lang, type Command } from "../cli";
+import { printSummary } from "../terminal";
+
+export const compareCommand: Command = {
+  name: "compare",
+  usage: "els compare <slug|url> <slug|url>... [options]",
+  description: "Compare several sources: agreement, disagreements, unique claims and a combined TL;DR.",
+  flags: [
+    { name: "redo", short: "r", description: "Compare again even if this set was compared before" },
+    { name: "style", arg: "<name>", description: "Summary style (see 'els styles')" },
+    { name: "lang", short: "l", arg: "<code>", description: "Comparison language (default: ELS_LANG)" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    if (args.positionals.length < 2) throw new UsageError("Expected at least two slugs or URLs");
+    const result = await runCompare({
+      refs: args.positionals,
+      redo: !!args.flags.redo,
+      style: str(args, "style"),
+      lang: lang(args, "lang"),
+    });
+
+    if (args.flags.json) {
+      console.log(JSON.stringify({
+        slug: result.slug,
+        title: result.title,
+        summary: result.summary,
+        usage: result.usage ?? null,
+        htmlPath: result.htmlPath,
+        cached: result.cached || false,
+      }));
+    } else {
+      printSummary(result);
+    }
+  },
+};
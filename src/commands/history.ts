@@ -0,0 +1,87 @@
+import { resolveSlug, listVersions, readVersion } from "../storage";
+import { diffLines, diffHunks, roughDiff } from "../diff";
+import { UsageError, type Command } from "../cli";
+import { PAD, bold, dim, cyan, green, red, rule, mdToAnsi } from "../terminal";
+
+function versionArg(raw: string): number {
+  const n = Number(raw.replace(/^v/, ""));
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`Not a version number: ${raw}`);
+  return n;
+}
+
+export const historyCommand: Command = {
+  name: "history",
+  usage: "els history <slug|url> [<from> [<to>]]",
+  description: "List summary versions, or diff two of them (one version diffs against the previous).",
+  flags: [
+    { name: "show", arg: "<n>", description: "Print one version instead of diffing" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const [ref, ...rest] = args.positionals;
+    if (!ref || rest.length > 2) throw new UsageError("Expected a slug and up to two versions");
+    const slug = await resolveSlug(ref);
+    if (!slug) throw new Error(`Not in the library: ${ref}`);
+    const versions = await listVersions(slug);
+    if (versions.length === 0) throw new Error(`No version history for ${slug}`);
+
+    const show = args.flags.show;
+    if (typeof show === "string") {
+      const n = versionArg(show);
+      const body = await readVersion(slug, n);
+      if (body === null) throw new Error(`${slug} has no version ${n}`);
+      if (args.flags.json) console.log(JSON.stringify({ slug, version: n, summary: body }));
+      else console.log(mdToAnsi(body));
+      return;
+    }
+
+    if (rest.length === 0) {
+      const latest = versions.at(-1)!.version;
+      if (args.flags.json) {
+        console.log(JSON.stringify({ slug, versions: versions.map(({ path, ...v }) => v) }));
+        return;
+      }
+      console.log(rule());
+      console.log(PAD + bold(slug));
+      console.log(rule());
+      for (const v of versions) {
+        const current = v.version === latest ? green("  (current)") : "";
+        console.log(`${PAD}${cyan(`v${v.version}`.padEnd(4))}  ${dim(v.date.slice(0, 16).replace("T", " "))}  ${v.model}  ${dim(v.prompt)}${current}`);
+      }
+      console.log(rule());
+      return;
+    }
+
+    const to = versionArg(rest.at(-1)!);
+    const from = rest.length === 2 ? versionArg(rest[0]) : to - 1;
+    const before = await readVersion(slug, from);
+    const after = await readVersion(slug, to);
+    if (before === null) throw new Error(`${slug} has no version ${from}`);
+    if (after === null) throw new Error(`${slug} has no version ${to}`);
+
+    // Versions too far apart to line up are shown as removed lines, then added ones
+    const exact = diffLines(before, after);
+    const lines = exact ?? roughDiff(before, after);
+    if (args.flags.json) {
+      console.log(JSON.stringify({ slug, from, to, diff: lines }));
+      return;
+    }
+
+    console.log(rule());
+    console.log(PAD + bold(`${slug}  v${from} → v${to}`));
+    console.log(rule());
+    const hunks = diffHunks(lines);
+    if (hunks.length === 0) console.log(`${PAD}${dim("no differences")}`);
+    else if (!exact) console.log(`${PAD}${dim("too many changes to line up: removed lines, then added lines")}`);
+    for (const [i, hunk] of hunks.entries()) {
+      if (i > 0) console.log(`${PAD}${dim("…")}`);
+      for (const line of hunk) {
+        if (line.op === "add") console.log(PAD + green(`+ ${line.text}`));
+        else if (line.op === "del") console.log(PAD + red(`- ${line.text}`));
+        else console.log(PAD + dim(`  ${line.text}`));
+      }
+    }
+    console.log(rule());
+  },
+};
@@ -0,0 +1,71 @@
+import { listEntries } from "../catalog";
+import { str, int, oneOf, date, type Command } from "../cli";
+import { PAD, bold, dim, cyan, rule, contentWidth } from "../terminal";
+
+export const listCommand: Command = {
+  name: "list",
+  usage: "els list [options]",
+  description: "List saved summaries, newest first.",
+  flags: [
+    { name: "type", arg: "<web|youtube|subtitles|document|pdf|site|comparison|playlist>", description: "Only entries of this type" },
+    { name: "style", arg: "<name>", description: "Only entries summarized in this style" },
+    { name: "since", arg: "<YYYY-MM-DD>", description: "Only entries saved on or after this date" },
+    { name: "until", arg: "<YYYY-MM-DD>", description: "Only entries saved on or before this date" },
+    { name: "domain", arg: "<host>", description: "Only entries from this domain (and its subdomains)" },
+    { name: "sort", arg: "<date|title|words>", description: "Sort key (default date)" },
+    { name: "reverse", description: "Reverse the sort order" },
+    { name: "limit", arg: "<n>", description: "Entries per page (default 20)" },
+    { name: "page", short: "p", arg: "<n>", description: "Page number (default 1)" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const sort = oneOf(args, "sort", ["date", "title", "words"] as const) ?? "date";
+    const limit = int(args, "limit", 20);
+    const page = int(args, "page", 1);
+    const defaultAscending = sort === "title";
+
+    const { entries, total } = await listEntries({
+      type: oneOf(args, "type", ["web", "youtube", "subtitles", "document", "pdf", "site", "comparison", "playlist"] as const),
+      style: str(args, "style"),
+      since: date(args, "since"),
+      until: date(args, "until"),
+      domain: str(args, "domain"),
+      sort,
+      ascending: args.flags.reverse ? !defaultAscending : defaultAscending,
+      limit,
+      offset: (page - 1) * limit,
+    });
+    const pages = Math.max(1, Math.ceil(total / limit));
+
+    if (args.flags.json) {
+      console.log(JSON.stringify({
+        total,
+        page,
+        pages,
+        entries: entries.map((e) => ({
+          slug: e.slug,
+          title: e.title,
+          url: e.url,
+          type: e.type,
+          style: e.style,
+          date: e.date.slice(0, 10),
+          words: e.words,
+          htmlPath: e.htmlPath,
+        })),
+      }));
+      return;
+    }
+
+    const titleWidth = contentWidth() - 24;
+    console.log(rule());
+    for (const e of entries) {
+      const title = e.title.length > titleWidth ? e.title.slice(0, titleWidth - 1) + "…" : e.title;
+      console.log(`${PAD}${dim(e.date.slice(0, 10))}  ${e.type.padEnd(10)}  ${bold(title)}`);
+      console.log(`${PAD}${" ".repeat(24)}${cyan(e.slug)}`);
+    }
+    if (entries.length === 0) console.log(`${PAD}${dim("no entries")}`);
+    console.log(rule());
+    console.log(`${PAD}${dim(`page ${page}/${pages} · ${total} entr${total === 1 ? "y" : "ies"}`)}`);
+  },
+};
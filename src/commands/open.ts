@@ -0,0 +1,34 @@
+import { resolveSlug } from "../storage";
+import { getEntry } from "../catalog";
+import { renderStored } from "../run";
+import { spawnQutebrowser } from "../cdp";
+import { UsageError, type Command } from "../cli";
+
+export const openCommand: Command = {
+  name: "open",
+  usage: "els open <slug|url> [options]",
+  description: "Open a saved summary's HTML page in qutebrowser.",
+  flags: [
+    { name: "source", description: "Open the original source URL instead" },
+  ],
+
+  async run(args) {
+    const [ref] = args.positionals;
+    if (!ref || args.positionals.length > 1) throw new UsageError("Expected exactly one slug or URL");
+    const slug = await resolveSlug(ref);
+    const entry = slug ? await getEntry(slug) : null;
+    if (!entry) throw new Error(`Not in the library: ${ref}`);
+
+    if (args.flags.source) {
+      if (entry.type === "comparison") throw new Error(`${entry.slug} is a comparison; open one of its sources instead`);
+      await spawnQutebrowser(entry.url);
+      return;
+    }
+    // Render on demand if the HTML page was deleted or never written
+    const htmlPath = (await Bun.file(entry.htmlPath).exists())
+      ? entry.htmlPath
+      : await renderStored(entry.slug);
+    await spawnQutebrowser(`file://${htmlPath}`);
+    console.error(`  Opened ${entry.slug}`);
+  },
+};
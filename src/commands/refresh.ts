@@ -0,0 +1,61 @@
+import { runRefresh, type RefreshResult } from "../run";
+import { readWatchlist } from "../watch";
+import { UsageError, int, type Command } from "../cli";
+import { PAD, bold, dim, cyan, green, red, yellow, rule, mdToAnsi } from "../terminal";
+
+export const refreshCommand: Command = {
+  name: "refresh",
+  usage: "els refresh [<slug|url>...] [options]",
+  description: "Check entries (default: the watched ones) for changes and re-summarize the ones that changed.",
+  flags: [
+    { name: "min-change", arg: "<words>", description: "Changed words needed to re-summarize (default: 10)" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const minChange = int(args, "min-change", 10);
+    const refs = args.positionals.length > 0
+      ? args.positionals
+      : (await readWatchlist()).map((w) => w.slug);
+    if (refs.length === 0) throw new UsageError("Nothing watched yet; pass slugs or URLs, or add some with els watch");
+
+    // One source failing to load shouldn't stop the others from being checked
+    const results: (RefreshResult | { ref: string; status: "failed"; error: string })[] = [];
+    for (const ref of refs) {
+      try {
+        results.push(await runRefresh({ ref, minChange }));
+      } catch (err: any) {
+        console.error(`  ${ref}: ${err.message}`);
+        results.push({ ref, status: "failed", error: err.message });
+      }
+    }
+
+    if (args.flags.json) {
+      console.log(JSON.stringify(results));
+      return;
+    }
+
+    console.log(rule());
+    for (const r of results) {
+      if (r.status === "failed") {
+        console.log(`${PAD}${red("failed".padEnd(9))}  ${r.ref}`);
+        console.log(`${PAD}${" ".repeat(11)}${dim(r.error)}`);
+        continue;
+      }
+      const label = r.status === "changed" ? green("changed") : r.status === "minor" ? yellow("minor") : dim("unchanged");
+      const words = r.changedWords ? dim(`  ${r.changedWords} words`) : "";
+      console.log(`${PAD}${label}${" ".repeat(9 - r.status.length)}  ${cyan(r.slug)}${words}`);
+      if (r.changes) {
+        console.log("");
+        console.log(`${PAD}${bold("What changed")}`);
+        console.log(mdToAnsi(r.changes));
+        console.log(`${PAD}${dim(r.htmlPath)}`);
+        console.log("");
+      }
+    }
+    console.log(rule());
+
+    const failed = results.filter((r) => r.status === "failed").length;
+    if (failed) throw new Error(`${failed} of ${results.length} entries could not be refreshed`);
+  },
+};
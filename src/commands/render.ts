@@ -0,0 +1,41 @@
+import { resolveSlug } from "../storage";
+import { listEntries } from "../catalog";
+import { renderStored } from "../run";
+import { UsageError, type Command } from "../cli";
+
+export const renderCommand: Command = {
+  name: "render",
+  usage: "els render <slug|url>... | --all",
+  description: "Regenerate HTML pages from the stored summaries (e.g. after a template change).",
+  flags: [
+    { name: "all", short: "a", description: "Re-render every entry in the library" },
+  ],
+
+  async run(args) {
+    let slugs: string[];
+    if (args.flags.all) {
+      if (args.positionals.length > 0) throw new UsageError("--all doesn't take slugs");
+      slugs = (await listEntries()).entries.map((e) => e.slug);
+    } else {
+      if (args.positionals.length === 0) throw new UsageError("Expected slugs or --all");
+      slugs = [];
+      for (const ref of args.positionals) {
+        const slug = await resolveSlug(ref);
+        if (!slug) throw new Error(`Not in the library: ${ref}`);
+        slugs.push(slug);
+      }
+    }
+
+    let failed = 0;
+    for (const slug of slugs) {
+      try {
+        await renderStored(slug);
+        console.error(`  Rendered ${slug}`);
+      } catch (err: any) {
+        failed++;
+        console.error(`  Skipped ${slug}: ${err.message}`);
+      }
+    }
+    if (failed > 0) throw new Error(`${failed} of ${slugs.length} entries failed to render`);
+  },
+};
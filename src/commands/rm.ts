@@ -0,0 +1,39 @@
+import { resolveSlug, deleteEntry } from "../storage";
+import { UsageError, type Command } from "../cli";
+
+export const rmCommand: Command = {
+  name: "rm",
+  usage: "els rm <slug|url>... [options]",
+  description: "Delete saved entries: article, summary and HTML together.",
+  flags: [
+    { name: "yes", short: "y", description: "Don't ask for confirmation" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    if (args.positionals.length === 0) throw new UsageError("Expected at least one slug or URL");
+
+    const slugs: string[] = [];
+    for (const ref of args.positionals) {
+      const slug = await resolveSlug(ref);
+      if (!slug) throw new Error(`Not in the library: ${ref}`);
+      slugs.push(slug);
+    }
+
+    if (!args.flags.yes) {
+      if (!process.stdin.isTTY) throw new UsageError("Refusing to delete without --yes when not interactive");
+      const answer = prompt(`Delete ${slugs.length === 1 ? slugs[0] : `${slugs.length} entries`}? [y/N]`);
+      if (answer?.trim().toLowerCase() !== "y") {
+        console.error("  Aborted");
+        return;
+      }
+    }
+
+    const removed: Record<string, string[]> = {};
+    for (const slug of slugs) {
+      removed[slug] = await deleteEntry(slug);
+      if (!args.flags.json) console.error(`  Removed ${slug} (${removed[slug].length} files)`);
+    }
+    if (args.flags.json) console.log(JSON.stringify({ removed }));
+  },
+};
@@ -0,0 +1,66 @@
+import { searchCatalog, HIT_START, HIT_END } from "../catalog";
+import { UsageError, str, int, oneOf, date, type Command } from "../cli";
+import { PAD, bold, dim, cyan, green, rule, wrapLine, contentWidth } from "../terminal";
+
+export const searchCommand: Command = {
+  name: "search",
+  usage: "els search <query> [options]",
+  description: "Full-text search across saved articles and summaries.",
+  flags: [
+    { name: "type", arg: "<web|youtube|subtitles|document|pdf|site|comparison|playlist>", description: "Only entries of this type" },
+    { name: "since", arg: "<YYYY-MM-DD>", description: "Only entries saved on or after this date" },
+    { name: "until", arg: "<YYYY-MM-DD>", description: "Only entries saved on or before this date" },
+    { name: "domain", arg: "<host>", description: "Only entries from this domain (and its subdomains)" },
+    { name: "limit", arg: "<n>", description: "Maximum results (default 20)" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    // Terms are ANDed; a trailing * makes a term a prefix match
+    const query = args.positionals.join(" ");
+    if (!query) throw new UsageError("Missing search query");
+
+    const hits = await searchCatalog(query, {
+      type: oneOf(args, "type", ["web", "youtube", "subtitles", "document", "pdf", "site", "comparison", "playlist"] as const),
+      since: date(args, "since"),
+      until: date(args, "until"),
+      domain: str(args, "domain"),
+      limit: int(args, "limit", 20),
+    });
+
+    if (args.flags.json) {
+      console.log(JSON.stringify(hits.map((hit) => ({
+        slug: hit.entry.slug,
+        title: hit.entry.title,
+        url: hit.entry.url,
+        type: hit.entry.type,
+        date: hit.entry.date.slice(0, 10),
+        match: hit.kind,
+        snippet: hit.snippet.replaceAll(HIT_START, "**").replaceAll(HIT_END, "**"),
+        htmlPath: hit.entry.htmlPath,
+        score: hit.score,
+      }))));
+      return;
+    }
+
+    console.log(rule());
+    console.log(PAD + bold(`search "${query}"`) + dim(`  ${hits.length} result${hits.length === 1 ? "" : "s"}`));
+    console.log(rule());
+    for (const [i, hit] of hits.entries()) {
+      const { entry } = hit;
+      const snippet = hit.snippet
+        .replaceAll(HIT_START, "\x1b[1;33m")
+        .replaceAll(HIT_END, "\x1b[0m");
+      console.log("");
+      console.log(`${PAD}${dim(`${i + 1}.`)} ${bold(entry.title)}`);
+      console.log(`${PAD}   ${dim(`${entry.type} · ${entry.date.slice(0, 10)}${entry.domain ? ` · ${entry.domain}` : ""} · ${hit.kind}`)}`);
+      for (const line of wrapLine(snippet, contentWidth() - 3)) {
+        console.log(`${PAD}   ${line}`);
+      }
+      console.log(`${PAD}   ${dim("slug")}  ${cyan(entry.slug)}`);
+      console.log(`${PAD}   ${dim("file")}  ${green(entry.htmlPath)}`);
+    }
+    console.log("");
+    console.log(rule());
+  },
+};
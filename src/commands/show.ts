@@ -0,0 +1,49 @@
+import { resolveSlug, readSummaryFile, readArticleFile, readStructured } from "../storage";
+import { getEntry } from "../catalog";
+import { parseFrontmatter } from "../frontmatter";
+import { UsageError, type Command } from "../cli";
+import { printSummary } from "../terminal";
+
+export const showCommand: Command = {
+  name: "show",
+  usage: "els show <slug|url> [options]",
+  description: "Print a saved summary in the terminal.",
+  flags: [
+    { name: "article", short: "a", description: "Print the full extracted article instead" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const [ref] = args.positionals;
+    if (!ref || args.positionals.length > 1) throw new UsageError("Expected exactly one slug or URL");
+    const slug = await resolveSlug(ref);
+    if (!slug) throw new Error(`Not in the library: ${ref}`);
+
+    const text = args.flags.article ? await readArticleFile(slug) : await readSummaryFile(slug);
+    if (!text) throw new Error(`No ${args.flags.article ? "article" : "summary"} file for ${slug}`);
+    const { fields, body } = parseFrontmatter(text);
+    const entry = await getEntry(slug);
+    const result = {
+      slug,
+      title: fields.title || slug,
+      summary: body,
+      structured: args.flags.article ? undefined : (await readStructured(slug)) ?? undefined,
+      htmlPath: entry?.htmlPath || "",
+    };
+
+    if (args.flags.json) {
+      console.log(JSON.stringify({
+        ...result,
+        structured: result.structured ?? null,
+        url: fields.url,
+        type: fields.type,
+        date: fields.date,
+        lang: fields.lang ?? null,
+      }));
+    } else if (args.flags.article) {
+      console.log(body);
+    } else {
+      printSummary(result);
+    }
+  },
+};
@@ -0,0 +1,115 @@
+import { readLedger, emptyUsage, addUsage, formatCost, formatTokens, type LedgerEntry, type Usage } from "../usage";
+import { UsageError, oneOf, date, type Command } from "../cli";
+import { PAD, bold, dim, cyan, rule } from "../terminal";
+import { USAGE_LEDGER } from "../paths";
+
+const GROUPS = ["day", "type", "model"] as const;
+type Group = (typeof GROUPS)[number];
+
+interface Row extends Usage {
+  key: string;
+  runs: number;
+}
+
+function groupKey(entry: LedgerEntry, by: Group): string {
+  if (by === "day") return entry.date.slice(0, 10);
+  return by === "type" ? entry.type : entry.model;
+}
+
+/** Sum ledger entries per key. Days sort newest first, everything else by spend. */
+function breakdown(entries: LedgerEntry[], by: Group): Row[] {
+  const rows = new Map<string, Row>();
+  for (const entry of entries) {
+    const key = groupKey(entry, by);
+    const row = rows.get(key) ?? { key, runs: 0, ...emptyUsage() };
+    row.runs++;
+    addUsage(row, entry);
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) =>
+    by === "day" ? b.key.localeCompare(a.key) : b.costUsd - a.costUsd || b.runs - a.runs,
+  );
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  return s >= 3600 ? `${Math.floor(s / 3600)}h${String(Math.floor((s % 3600) / 60)).padStart(2, "0")}m`
+    : s >= 60 ? `${Math.floor(s / 60)}m${String(s % 60).padStart(2, "0")}s`
+    : `${s}s`;
+}
+
+function formatRow(row: Row, keyWidth: number): string {
+  return [
+    row.key.padEnd(keyWidth),
+    String(row.runs).padStart(5),
+    formatTokens(row.inputTokens).padStart(8),
+    formatTokens(row.outputTokens).padStart(8),
+    formatCost(row.costUsd).padStart(10),
+    formatDuration(row.durationMs).padStart(8),
+  ].join("  ");
+}
+
+export const statsCommand: Command = {
+  name: "stats",
+  usage: "els stats [options]",
+  description: "Show token usage and spend for summaries and companion chats.",
+  flags: [
+    { name: "by", arg: "<day|type|model>", description: "Only this breakdown (default: all three)" },
+    { name: "since", arg: "<YYYY-MM-DD>", description: "Only usage on or after this date" },
+    { name: "until", arg: "<YYYY-MM-DD>", description: "Only usage on or before this date" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    if (args.positionals.length > 0) throw new UsageError("stats takes no arguments");
+    const by = oneOf(args, "by", GROUPS);
+    const since = date(args, "since");
+    const until = date(args, "until");
+
+    const entries = (await readLedger()).filter((e) => {
+      const day = e.date.slice(0, 10);
+      return (!since || day >= since) && (!until || day <= until);
+    });
+    const total: Row = { key: "total", runs: 0, ...emptyUsage() };
+    for (const entry of entries) {
+      total.runs++;
+      addUsage(total, entry);
+    }
+    const groups = by ? [by] : [...GROUPS];
+
+    if (args.flags.json) {
+      const { key, ...totals } = total;
+      console.log(JSON.stringify({
+        total: totals,
+        ...Object.fromEntries(groups.map((g) => [`by${g[0].toUpperCase()}${g.slice(1)}`, breakdown(entries, g)])),
+      }));
+      return;
+    }
+
+    console.log(rule());
+    if (entries.length === 0) {
+      console.log(`${PAD}${dim("no usage recorded yet")}`);
+      console.log(rule());
+      console.log(`${PAD}${dim(`ledger: ${USAGE_LEDGER}`)}`);
+      return;
+    }
+    for (const group of groups) {
+      const rows = breakdown(entries, group);
+      const keyWidth = Math.max(10, ...rows.map((r) => r.key.length), "total".length);
+      const header = [
+        `by ${group}`.padEnd(keyWidth),
+        "runs".padStart(5),
+        "input".padStart(8),
+        "output".padStart(8),
+        "cost".padStart(10),
+        "time".padStart(8),
+      ].join("  ");
+      console.log(`${PAD}${bold(cyan(header))}`);
+      for (const row of rows) console.log(`${PAD}${formatRow(row, keyWidth)}`);
+      console.log(`${PAD}${dim(formatRow(total, keyWidth))}`);
+      console.log("");
+    }
+    console.log(rule());
+    console.log(`${PAD}${dim(`ledger: ${USAGE_LEDGER}`)}`);
+  },
+};
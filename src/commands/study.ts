@@ -0,0 +1,49 @@
+import { runStudy } from "../run";
+import { UsageError, int, lang, type Command } from "../cli";
+import { PAD, bold, dim, green, rule } from "../terminal";
+
+export const studyCommand: Command = {
+  name: "study",
+  usage: "els study <slug|url> [options]",
+  description: "Make flashcards and a quiz from a saved article: Anki TSV, Markdown deck and an HTML quiz page.",
+  flags: [
+    { name: "cards", arg: "<n>", description: "Number of flashcards (default: 20)" },
+    { name: "questions", arg: "<n>", description: "Number of quiz questions (default: 10)" },
+    { name: "lang", short: "l", arg: "<code>", description: "Language of the cards (default: the source's)" },
+    { name: "redo", short: "r", description: "Generate again even if a deck exists" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const [ref] = args.positionals;
+    if (!ref || args.positionals.length > 1) throw new UsageError("Expected exactly one slug or URL");
+    const result = await runStudy({
+      ref,
+      cards: int(args, "cards", 20),
+      questions: int(args, "questions", 10),
+      lang: lang(args, "lang"),
+      redo: !!args.flags.redo,
+    });
+
+    if (args.flags.json) {
+      console.log(JSON.stringify({
+        slug: result.slug,
+        title: result.title,
+        deck: result.deck,
+        files: result.files,
+        usage: result.usage ?? null,
+        cached: result.cached || false,
+      }));
+      return;
+    }
+
+    console.log(rule());
+    console.log(`${PAD}${bold(result.title)}`);
+    console.log(`${PAD}${dim(`${result.deck.cards.length} flashcards · ${result.deck.quiz.length} quiz questions`)}`);
+    console.log(rule());
+    console.log(`${PAD}${dim("quiz ")}  ${green(result.files.html)}`);
+    console.log(`${PAD}${dim("anki ")}  ${green(result.files.tsv)}`);
+    console.log(`${PAD}${dim("deck ")}  ${green(result.files.markdown)}`);
+    console.log(rule());
+  },
+};
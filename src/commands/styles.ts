@@ -0,0 +1,29 @@
+import { listStyles } from "../prompts";
+import { UsageError, type Command } from "../cli";
+import { PAD, bold, dim, rule } from "../terminal";
+import { HOME } from "../paths";
+
+export const stylesCommand: Command = {
+  name: "styles",
+  usage: "els styles [options]",
+  description: "List summary styles for --style, built-in and from prompt templates.",
+  flags: [
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    if (args.positionals.length > 0) throw new UsageError("styles takes no arguments");
+    const styles = await listStyles();
+    if (args.flags.json) {
+      console.log(JSON.stringify(styles));
+      return;
+    }
+    const width = Math.max(...styles.map((s) => s.name.length));
+    console.log(rule());
+    for (const style of styles) {
+      console.log(`${PAD}${bold(style.name.padEnd(width))}  ${style.description}  ${dim(`(${style.source})`)}`);
+    }
+    console.log(rule());
+    console.log(`${PAD}${dim(`templates: ${HOME}/prompts/<style>.md or <style>.<type>.md`)}`);
+  },
+};
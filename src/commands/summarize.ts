@@ -0,0 +1,136 @@
+import {
+  runSummarize,
+  runSummarizeSite,
+  runDiscuss,
+  DEFAULT_PLAYLIST_LIMIT,
+  DEFAULT_PLAYLIST_CONCURRENCY,
+} from "../run";
+import { isYouTube, extractVideoId, listCaptionTracks } from "../youtube";
+import { UsageError, str, int, lang, type Command } from "../cli";
+import { PAD, bold, dim, cyan, rule, printSummary, streamPrinter } from "../terminal";
+import type { OnProgress } from "../progress";
+
+/** els --list-captions <url>: a video's caption tracks and what they can be translated into. */
+async function listCaptions(url: string | undefined, json: boolean): Promise<void> {
+  if (!url || !isYouTube(url)) throw new UsageError("--list-captions needs a YouTube URL");
+  const videoId = extractVideoId(url);
+  if (!videoId) throw new Error("Could not parse YouTube video ID");
+  const list = await listCaptionTracks(videoId);
+  if (json) {
+    console.log(JSON.stringify(list));
+    return;
+  }
+  console.log(rule());
+  console.log(`${PAD}${bold(list.title)}`);
+  console.log("");
+  for (const t of list.tracks) {
+    const notes = [t.kind === "asr" ? "auto-generated" : "manual", t.translatable ? "translatable" : ""].filter(Boolean);
+    console.log(`${PAD}${cyan(t.lang.padEnd(8))}  ${t.name}  ${dim(notes.join(", "))}`);
+  }
+  if (list.tracks.some((t) => t.translatable) && list.translationLanguages.length) {
+    console.log("");
+    console.log(`${PAD}${dim(`Translations (--caption-lang): ${list.translationLanguages.map((t) => t.lang).join(", ")}`)}`);
+  }
+  console.log(rule());
+}
+
+export const summarizeCommand: Command = {
+  name: "summarize",
+  usage: "els [options] [url|file|-]",
+  description: "Summarize a URL (page, video, playlist or channel), a local file or stdin (-), or the active qutebrowser tab.",
+  flags: [
+    { name: "site", short: "s", description: "Summarize the entire site/docs" },
+    { name: "redo", short: "r", description: "Force re-summarize, ignore cache" },
+    { name: "discuss", short: "d", description: "Open a discussion in tmux afterwards" },
+    { name: "new", short: "n", description: "Force a new discussion session" },
+    { name: "style", arg: "<name>", description: "Summary style (see 'els styles')" },
+    { name: "title", arg: "<title>", description: "Override the page (or file) title" },
+    { name: "lang", short: "l", arg: "<code>", description: "Summary language, e.g. de or pt-br (default: ELS_LANG)" },
+    { name: "caption-lang", arg: "<code>", description: "Caption track language for videos, translated by YouTube if needed" },
+    { name: "list-captions", description: "List a video's caption tracks and exit" },
+    { name: "limit", arg: "<n>", description: `Videos to take from a playlist or channel (default: ${DEFAULT_PLAYLIST_LIMIT})` },
+    { name: "concurrency", arg: "<n>", description: `Playlist videos summarized at once (default: ${DEFAULT_PLAYLIST_CONCURRENCY})` },
+    { name: "fix-quotes", description: "Re-prompt when quotes aren't found verbatim in the source" },
+    { name: "json", description: "Machine-readable output for userscripts" },
+    { name: "json-stream", description: "NDJSON progress events (extracting, chunk_done, text_delta, saved)" },
+    { name: "discuss-latest", description: "Discuss the most recent summary and exit" },
+    { name: "discuss-url", arg: "<url>", description: "Discuss the summary for a URL and exit" },
+  ],
+
+  async run(args) {
+    const { flags } = args;
+    if (args.positionals.length > 1) {
+      throw new UsageError(`Expected at most one URL, got ${args.positionals.length}`);
+    }
+
+    if (flags["discuss-latest"]) {
+      await runDiscuss();
+      return;
+    }
+    const discussUrl = str(args, "discuss-url");
+    if (discussUrl !== undefined) {
+      await runDiscuss(undefined, discussUrl, !!flags.new);
+      return;
+    }
+
+    const url = args.positionals[0];
+    if (flags["list-captions"]) {
+      await listCaptions(url, !!flags.json);
+      return;
+    }
+    const captionLang = lang(args, "caption-lang");
+    if (captionLang && flags.site) throw new UsageError("--caption-lang applies to videos, not --site");
+    if (url === "-" && flags.site) throw new UsageError("--site needs a URL, not stdin");
+    const redo = !!flags.redo;
+    const style = str(args, "style");
+    const fixQuotes = !!flags["fix-quotes"];
+    const summaryLang = lang(args, "lang");
+
+    // --json-stream reports every event; an interactive terminal shows the summary as it's written
+    let onProgress: OnProgress | undefined;
+    const printer = !flags.json && !flags["json-stream"] && process.stdout.isTTY ? streamPrinter() : null;
+    if (flags["json-stream"]) {
+      onProgress = (event) => console.log(JSON.stringify(event));
+    } else if (printer) {
+      onProgress = (event) => {
+        if (event.event === "text_delta") printer.write(event.text, event.replace);
+      };
+    }
+
+    const result = flags.site
+      ? await runSummarizeSite({ url, redo, style, fixQuotes, lang: summaryLang, onProgress })
+      : await runSummarize({
+          url,
+          title: str(args, "title"),
+          redo,
+          style,
+          fixQuotes,
+          lang: summaryLang,
+          captionLang,
+          limit: int(args, "limit", DEFAULT_PLAYLIST_LIMIT),
+          concurrency: int(args, "concurrency", DEFAULT_PLAYLIST_CONCURRENCY),
+          onProgress,
+        });
+
+    if (flags.json) {
+      // Machine-readable output for userscripts
+      console.log(JSON.stringify({
+        slug: result.slug,
+        title: result.title,
+        summary: result.summary,
+        structured: result.structured ?? null,
+        usage: result.usage ?? null,
+        htmlPath: result.htmlPath,
+        cached: result.cached || false,
+      }));
+    } else if (!flags["json-stream"]) {
+      // Human-readable output for CLI (--json-stream already ended with a saved event)
+      printSummary(result, !!printer?.end());
+    }
+
+    if (flags.discuss) {
+      console.error("  Opening discussion session...");
+      await runDiscuss(result.slug, undefined, !!flags.new);
+    }
+  },
+};
@@ -0,0 +1,45 @@
+import { resolveSlug, readArticleFile } from "../storage";
+import { parseFrontmatter } from "../frontmatter";
+import { parseTranscript, toSrt, toVtt } from "../transcript";
+import { UsageError, oneOf, type Command } from "../cli";
+
+const FORMATS = ["txt", "srt", "vtt"] as const;
+
+export const transcriptCommand: Command = {
+  name: "transcript",
+  usage: "els transcript <slug|url> [options]",
+  description: "Print a saved YouTube or subtitle-file transcript, as timestamped text or as SRT/VTT subtitles.",
+  flags: [
+    { name: "format", short: "f", arg: "<txt|srt|vtt>", description: "Output format (default: txt)" },
+    { name: "json", description: "Machine-readable output (one object per caption)" },
+  ],
+
+  async run(args) {
+    const [ref] = args.positionals;
+    if (!ref || args.positionals.length > 1) throw new UsageError("Expected exactly one slug or URL");
+    const format = oneOf(args, "format", FORMATS) ?? "txt";
+    const slug = await resolveSlug(ref);
+    if (!slug) throw new Error(`Not in the library: ${ref}`);
+
+    const text = await readArticleFile(slug);
+    if (!text) throw new Error(`No article file for ${slug}`);
+    const { fields, body } = parseFrontmatter(text);
+    if (fields.type !== "youtube" && fields.type !== "subtitles") {
+      throw new Error(`${slug} is not a YouTube video or subtitle file`);
+    }
+    const segments = parseTranscript(body);
+    if (segments.length === 0) {
+      throw new Error(`${slug} was saved without timestamps; re-summarize it with --redo to get them`);
+    }
+
+    if (args.flags.json) {
+      console.log(JSON.stringify({ slug, url: fields.url, segments }));
+    } else if (format === "srt") {
+      process.stdout.write(toSrt(segments));
+    } else if (format === "vtt") {
+      process.stdout.write(toVtt(segments));
+    } else {
+      console.log(body);
+    }
+  },
+};
@@ -0,0 +1,40 @@
+import { runTranslate } from "../run";
+import { UsageError, langs, type Command } from "../cli";
+import { printSummary } from "../terminal";
+
+export const translateCommand: Command = {
+  name: "translate",
+  usage: "els translate <slug|url> --lang <code>[,<code>...] [options]",
+  description: "Translate a saved summary into other languages without extracting the source again.",
+  flags: [
+    { name: "lang", short: "l", arg: "<codes>", description: "Target languages, comma-separated (e.g. de,fr)" },
+    { name: "redo", short: "r", description: "Translate again even if a translation exists" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const [ref] = args.positionals;
+    if (!ref || args.positionals.length > 1) throw new UsageError("Expected exactly one slug or URL");
+    const targets = langs(args, "lang");
+    if (targets.length === 0) throw new UsageError("--lang is required");
+
+    const results = [];
+    for (const code of targets) {
+      results.push(await runTranslate({ ref, lang: code, redo: !!args.flags.redo }));
+    }
+
+    if (args.flags.json) {
+      console.log(JSON.stringify(results.map((r) => ({
+        slug: r.slug,
+        title: r.title,
+        summary: r.summary,
+        structured: r.structured ?? null,
+        usage: r.usage ?? null,
+        htmlPath: r.htmlPath,
+        cached: r.cached || false,
+      }))));
+    } else {
+      for (const result of results) printSummary(result);
+    }
+  },
+};
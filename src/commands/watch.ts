@@ -0,0 +1,78 @@
+import { runSummarize } from "../run";
+import { resolveSlug } from "../storage";
+import { getEntry } from "../catalog";
+import { STDIN_SCHEME } from "../local";
+import { readWatchlist, watch, unwatch } from "../watch";
+import { UsageError, type Command } from "../cli";
+import { PAD, bold, dim, cyan, rule } from "../terminal";
+
+/** The entry a watch ref stands for: translations resolve to their original, URLs not in the library are summarized first. */
+async function watchTarget(ref: string): Promise<{ slug: string; url: string }> {
+  let slug = await resolveSlug(ref);
+  if (!slug && /^https?:\/\//.test(ref)) {
+    console.error(`  Not in the library yet: ${ref}`);
+    slug = (await runSummarize({ url: ref })).slug;
+  }
+  let entry = slug ? await getEntry(slug) : null;
+  if (!entry) throw new Error(`Not in the library: ${ref}`);
+  if (entry.translatedFrom) entry = (await getEntry(entry.translatedFrom)) ?? entry;
+  if (entry.type === "comparison") throw new Error(`${entry.slug} is a comparison; watch its sources instead`);
+  if (entry.type === "playlist") throw new Error(`${entry.slug} is a playlist; rerun it with --redo to pick up new videos`);
+  if (entry.url.startsWith(STDIN_SCHEME)) throw new Error(`${entry.slug} was read from stdin, so there is nothing to check`);
+  return { slug: entry.slug, url: entry.url };
+}
+
+export const watchCommand: Command = {
+  name: "watch",
+  usage: "els watch [<slug|url>...] [options]",
+  description: "Track entries for 'els refresh'. Without arguments, list the watched entries.",
+  flags: [
+    { name: "stop", description: "Stop watching the given entries" },
+    { name: "json", description: "Machine-readable output" },
+  ],
+
+  async run(args) {
+    const refs = args.positionals;
+
+    if (args.flags.stop) {
+      if (refs.length === 0) throw new UsageError("Expected at least one slug or URL");
+      const stopped: string[] = [];
+      for (const ref of refs) {
+        const slug = await resolveSlug(ref);
+        if (!slug) throw new Error(`Not in the library: ${ref}`);
+        if (await unwatch(slug)) stopped.push(slug);
+        else if (!args.flags.json) console.error(`  Not watched: ${slug}`);
+      }
+      if (args.flags.json) console.log(JSON.stringify({ stopped }));
+      else for (const slug of stopped) console.error(`  Stopped watching ${slug}`);
+      return;
+    }
+
+    if (refs.length > 0) {
+      const added: string[] = [];
+      for (const ref of refs) {
+        const { slug, url } = await watchTarget(ref);
+        if (await watch(slug, url)) added.push(slug);
+        else if (!args.flags.json) console.error(`  Already watched: ${slug}`);
+      }
+      if (args.flags.json) console.log(JSON.stringify({ added }));
+      else for (const slug of added) console.error(`  Watching ${slug}`);
+      return;
+    }
+
+    const list = await readWatchlist();
+    if (args.flags.json) {
+      console.log(JSON.stringify(list));
+      return;
+    }
+    console.log(rule());
+    for (const w of list) {
+      const checked = w.checked ? `checked ${w.checked.slice(0, 10)}` : "never checked";
+      const changed = w.changed ? ` · changed ${w.changed.slice(0, 10)}` : "";
+      console.log(`${PAD}${cyan(w.slug)}`);
+      console.log(`${PAD}  ${bold(w.url)}  ${dim(checked + changed)}`);
+    }
+    if (list.length === 0) console.log(`${PAD}${dim("nothing watched yet")}`);
+    console.log(rule());
+  },
+};
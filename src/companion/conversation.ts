@@ -1,7 +1,8 @@
 import { query, type SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import { SYSTEM_PROMPT, COMPANION_CDP_BASE, COMPANION_CDP_PROXY } from "./tools";
 import { HOME } from "../storage";
-import { getModel, cleanEnv } from "../env";
+import { getClaudeModel, cleanEnv } from "../env";
+import { emptyUsage, addUsage, usageFromSdk, appendLedger, type Usage } from "../usage";
 
 // No maxTurns limit — let the agent run as long as needed
 // No timeout — let the agent run as long as needed
@@ -23,6 +24,8 @@ export interface TabConversation {
   active: boolean;
   sessionId: string | null;
   abortController: AbortController | null;
+  /** Running total across every turn of this conversation. */
+  usage: Usage;
 }
 
 const conversations = new Map<string, TabConversation>();
@@ -76,9 +79,11 @@ async function clearPin(port: number): Promise<void> {
 }
 
 export type StreamCallback = (event: {
-  type: "text" | "tool_use" | "tool_result" | "done" | "error" | "interrupted";
+  type: "text" | "tool_use" | "tool_result" | "usage" | "done" | "error" | "interrupted";
   content: string;
   toolName?: string;
+  /** Conversation total, on "usage" events. */
+  usage?: Usage;
 }) => void;
 
 /**
@@ -93,7 +98,15 @@ export async function chat(
 ): Promise<void> {
   let conv = conversations.get(tabId);
   if (!conv) {
-    conv = { tabId, url: tabUrl, messages: [], active: false, sessionId: null, abortController: null };
+    conv = {
+      tabId,
+      url: tabUrl,
+      messages: [],
+      active: false,
+      sessionId: null,
+      abortController: null,
+      usage: emptyUsage(),
+    };
     conversations.set(tabId, conv);
   }
 
@@ -125,7 +138,7 @@ export async function chat(
   const options: any = {
     permissionMode: "bypassPermissions",
     allowDangerouslySkipPermissions: true,
-    model: getModel(),
+    model: getClaudeModel(),
     env: {
       ...cleanEnv(),
       AGENT_BROWSER_CDP: String(cdpPort),
@@ -183,6 +196,21 @@ export async function chat(
       handleMessage(message, onStream, streaming, (text) => {
         assistantText = text;
       });
+
+      // Each turn's result carries its tokens and cost: keep a running total and log it
+      if (message.type === "result") {
+        const turn = usageFromSdk(message);
+        addUsage(conv.usage, turn);
+        onStream({ type: "usage", content: "", usage: conv.usage });
+        appendLedger({
+          date: new Date().toISOString(),
+          kind: "chat",
+          type: "chat",
+          model: getClaudeModel(),
+          url: tabUrl,
+          ...turn,
+        }).catch((err) => log("usage", `ledger write failed: ${err.message}`));
+      }
     }
 
     log("chat", `done — ${assistantText.length} chars response`);
@@ -1,7 +1,7 @@
 import { chat, getConversation, clearConversation, interruptConversation, type StreamCallback } from "./conversation";
 import { COMPANION_PORT } from "./tools";
 import { listTabs } from "../cdp";
-import { isYouTube, extractVideoId, fetchCaptions } from "../youtube";
+import { isYouTube, extractVideoId, fetchCaptions, listCaptionTracks } from "../youtube";
 
 // Inline the chat HTML at build time
 const CHAT_HTML = await Bun.file(
@@ -67,12 +67,18 @@ export function startServer() {
           return Response.json({ error: "Could not parse video ID" }, { status: 400 });
         }
         try {
-          const result = await fetchCaptions(videoId);
+          // ?list=1 lists the caption tracks only; ?lang= picks (or has YouTube translate to) a language
+          if (url.searchParams.get("list")) {
+            return Response.json(await listCaptionTracks(videoId));
+          }
+          const captionLang = url.searchParams.get("lang") || undefined;
+          const result = await fetchCaptions(videoId, { captionLang });
           return Response.json({
             title: result.title,
             transcript: result.transcript,
-            segments: result.segments,
+            segments: result.segments.length,
             words: result.words,
+            track: result.track,
           });
         } catch (err: any) {
           return Response.json({ error: err.message }, { status: 500 });
@@ -84,7 +90,7 @@ export function startServer() {
         const tabId = url.searchParams.get("tabId") || "";
         const tabUrl = url.searchParams.get("url") || "";
         const conv = getConversation(tabId);
-        return Response.json(conv?.messages || []);
+        return Response.json({ messages: conv?.messages || [], usage: conv?.usage ?? null });
       }
 
       return new Response("Not found", { status: 404 });
@@ -56,7 +56,9 @@ When the user says "save summary", "save this", "make it persistent", "save and
 **For YouTube videos:**
 1. Fetch the transcript in ONE call — do not retry or re-fetch:
    \`curl -s "http://127.0.0.1:${COMPANION_PORT}/youtube-transcript?url=<VIDEO_URL>"\`
-   The response is JSON with fields: title, transcript, segments, words.
+   The response is JSON with fields: title, transcript, segments (the caption count), words, track (the caption track used).
+   Add \`&lang=<code>\` for captions in a specific language (YouTube translates when the video has no such track);
+   \`&list=1\` lists the available caption tracks instead.
    To extract just the transcript text: \`curl -s "..." | bun -e "const d=await Bun.stdin.json();console.log(d.transcript)"\`
    If it returns an error field, do NOT retry — fall back to reading the page via agent-browser instead.
 2. Summarize the transcript
@@ -65,6 +67,8 @@ When the user says "save summary", "save this", "make it persistent", "save and
 **File structure for persistent summaries:**
 
 Generate a slug: \`YYYY-MM-DD_kebab-case-title\` (max 60 chars for the title part). Use today's date.
+- ASCII only: transliterate accents (café → cafe). If the title is in a non-Latin script, build the stem from the URL instead (host + last path segment, e.g. \`nhk-or-jp-k10014\`).
+- Never overwrite: if \`articles/<slug>.md\` already exists, append \`-2\`, \`-3\`, ... until it's unused.
 
 **Article file** — \`${HOME}/articles/<slug>.md\`:
 \`\`\`
@@ -166,6 +170,12 @@ ls ${HOME}/summaries/ | head -20
 grep -l "keyword" ${HOME}/summaries/*.md
 \`\`\`
 
+For ranked full-text search across articles and summaries, use \`els search\` (JSON output, best match first):
+\`\`\`bash
+els search "keyword" --json
+els search "keyword" --type=youtube --since=2026-01-01 --domain=example.com --json
+\`\`\`
+
 ## Guidelines
 
 - Always snapshot the page first before answering questions about it
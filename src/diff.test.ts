@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { diffLines, diffHunks } from "./diff";
+
+const ops = (lines: { op: string; text: string }[] | null) => lines?.map((l) => `${l.op[0]} ${l.text}`);
+
+describe("diffLines", () => {
+  test("identical texts are all unchanged", () => {
+    expect(ops(diffLines("a\nb\nc", "a\nb\nc"))).toEqual(["s a", "s b", "s c"]);
+  });
+
+  test("tags added, removed and changed lines in order", () => {
+    expect(ops(diffLines("a\nb\nc\nd", "a\nc\nx\nd"))).toEqual(["s a", "d b", "s c", "a x", "s d"]);
+  });
+
+  test("handles empty sides", () => {
+    expect(ops(diffLines("", "a"))).toEqual(["d ", "a a"]);
+    expect(ops(diffLines("a\nb", "a\nb\n"))).toEqual(["s a", "s b", "a "]);
+  });
+
+  test("keeps every line of both inputs", () => {
+    const before = "one\ntwo\nthree\nfour\nfive";
+    const after = "zero\ntwo\nthree\nFOUR\nfive\nsix";
+    const lines = diffLines(before, after)!;
+    expect(lines.filter((l) => l.op !== "add").map((l) => l.text).join("\n")).toBe(before);
+    expect(lines.filter((l) => l.op !== "del").map((l) => l.text).join("\n")).toBe(after);
+  });
+
+  test("gives up past maxEdits", () => {
+    expect(diffLines("a\nb\nc", "x\ny\nz", 4)).toBeNull();
+    expect(diffLines("a\nb\nc", "x\ny\nz", 6)).not.toBeNull();
+  });
+});
+
+describe("diffHunks", () => {
+  test("keeps context lines around each change", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+    const after = before.replace("line 2\n", "line two\n").replace("line 17\n", "");
+    const hunks = diffHunks(diffLines(before, after)!, 1);
+    expect(hunks.map(ops)).toEqual([
+      ["s line 1", "d line 2", "a line two", "s line 3"],
+      ["s line 16", "d line 17", "s line 18"],
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+export interface DiffLine {
+  op: "same" | "add" | "del";
+  text: string;
+}
+
+// Longest edit script diffLines works out. Myers keeps O(D²) state for D changed lines, and a diff
+// this big says little more than "rewritten" anyway
+export const MAX_DIFF_EDITS = 2_000;
+
+/**
+ * Line diff via Myers' O(ND) algorithm. Returns every line of both inputs tagged with its op, or
+ * null when more than maxEdits lines were added or removed (see roughDiff for those).
+ */
+export function diffLines(before: string, after: string, maxEdits = MAX_DIFF_EDITS): DiffLine[] | null {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    if (d > maxEdits) return null;
+    // Only diagonals -d-1..d+1 are read back for this step
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const out: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[d + k] < vd[d + k + 2]) ? k + 1 : k - 1;
+    const prevX = vd[d + 1 + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      out.push({ op: "same", text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) out.push({ op: "add", text: b[--y] });
+      else out.push({ op: "del", text: a[--x] });
+    }
+  }
+  return out.reverse();
+}
+
+/**
+ * A cheap stand-in for diffLines when the texts are too far apart: lines only in `before` as
+ * deletions, then lines only in `after` as additions, each in their original order. Lines in both
+ * (counted with repeats) are left out, so the ops still count what changed.
+ */
+export function roughDiff(before: string, after: string): DiffLine[] {
+  const counts = new Map<string, number>();
+  for (const line of before.split("\n")) counts.set(line, (counts.get(line) ?? 0) + 1);
+  const added: DiffLine[] = [];
+  for (const line of after.split("\n")) {
+    const left = counts.get(line) ?? 0;
+    if (left > 0) counts.set(line, left - 1);
+    else added.push({ op: "add", text: line });
+  }
+  const removed: DiffLine[] = [];
+  for (const line of before.split("\n").reverse()) {
+    const left = counts.get(line) ?? 0;
+    if (left > 0) {
+      counts.set(line, left - 1);
+      removed.push({ op: "del", text: line });
+    }
+  }
+  return [...removed.reverse(), ...added];
+}
+
+/**
+ * Group a diff into hunks with `context` unchanged lines around each change,
+ * in the familiar unified-diff shape (without line-number headers).
+ */
+export function diffHunks(lines: DiffLine[], context = 3): DiffLine[][] {
+  const keep = new Array(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.op === "same") return;
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) {
+      keep[j] = true;
+    }
+  });
+
+  const hunks: DiffLine[][] = [];
+  let current: DiffLine[] = [];
+  lines.forEach((line, i) => {
+    if (keep[i]) current.push(line);
+    else if (current.length) {
+      hunks.push(current);
+      current = [];
+    }
+  });
+  if (current.length) hunks.push(current);
+  return hunks;
+}
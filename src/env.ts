@@ -32,7 +32,26 @@ export function cleanEnv(): Record<string, string | undefined> {
   return env;
 }
 
-/** Get the configured model (ELS_MODEL env or default). */
+const DEFAULT_CLAUDE_MODEL = "claude-opus-4-7";
+
+// Fallback model per provider when ELS_MODEL is unset
+const DEFAULT_MODELS: Record<string, string> = {
+  claude: DEFAULT_CLAUDE_MODEL,
+  openai: "local",
+  fake: "fake",
+};
+
+/** Get the configured summarization provider (ELS_PROVIDER env, default "claude"). */
+export function getProviderName(): string {
+  return (process.env.ELS_PROVIDER || "claude").toLowerCase();
+}
+
+/** Get the configured summarization model (ELS_MODEL env or the provider's default). */
 export function getModel(): string {
-  return process.env.ELS_MODEL || "claude-opus-4-7";
+  return process.env.ELS_MODEL || DEFAULT_MODELS[getProviderName()] || DEFAULT_CLAUDE_MODEL;
+}
+
+/** Model for Claude-only features (discussion, companion) — ELS_MODEL only applies when it names a Claude model. */
+export function getClaudeModel(): string {
+  return getProviderName() === "claude" ? getModel() : DEFAULT_CLAUDE_MODEL;
 }
@@ -0,0 +1,116 @@
+import type { Usage } from "./usage";
+
+export interface Meta {
+  title: string;
+  url: string;
+  type: "web" | "youtube" | "subtitles" | "document" | "pdf" | "site" | "comparison" | "playlist";
+  words: number;
+  /** Page count, for site summaries and PDFs. */
+  pages?: number;
+  /** Other URLs known to serve this page, e.g. its <link rel="canonical">. */
+  aliases?: string[];
+  /** Slugs of the entries a comparison or playlist covers, in citation order. */
+  sources?: string[];
+  /** Summary style (see prompts.ts). Omitted for the default style. */
+  style?: string;
+  /** Language of the summary and of the source, as BCP 47 codes (see lang.ts). */
+  lang?: string;
+  sourceLang?: string;
+  /** The caption track a video's transcript came from (see youtube.ts). */
+  captions?: { lang: string; kind: "manual" | "asr"; translatedFrom?: string };
+  /** Video details: channel, publish date (YYYY-MM-DD), length in seconds, description and chapters ("mm:ss Title"). */
+  channel?: string;
+  published?: string;
+  duration?: number;
+  description?: string;
+  chapters?: string[];
+  /** A local file's format, as detected (see local.ts). */
+  format?: string;
+  /** Hash of the article text (see contentHash), recorded on articles so refreshes can spot changes. */
+  contentHash?: string;
+  /** Slug of the summary this one was translated from. */
+  translatedFrom?: string;
+  /** Summary revision, model and prompt — recorded on summaries only. */
+  version?: number;
+  model?: string;
+  prompt?: string;
+  /** Tokens, cost and time spent producing this summary revision. */
+  usage?: Usage;
+}
+
+function quote(value: string): string {
+  // Escape backslashes first, then quotes and newlines, to avoid double-escaping
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+export function frontmatter(meta: Meta, date = new Date().toISOString()): string {
+  const extra = [
+    meta.pages ? `pages: ${meta.pages}` : "",
+    meta.aliases?.length ? `aliases: ${JSON.stringify(meta.aliases)}` : "",
+    meta.sources?.length ? `sources: ${JSON.stringify(meta.sources)}` : "",
+    meta.style && meta.style !== "default" ? `style: ${meta.style}` : "",
+    meta.lang ? `lang: ${meta.lang}` : "",
+    meta.sourceLang ? `source_lang: ${meta.sourceLang}` : "",
+    meta.translatedFrom ? `translated_from: ${meta.translatedFrom}` : "",
+    meta.channel ? `channel: ${quote(meta.channel)}` : "",
+    meta.published ? `published: ${meta.published}` : "",
+    meta.duration ? `duration: ${meta.duration}` : "",
+    meta.chapters?.length ? `chapters: ${JSON.stringify(meta.chapters)}` : "",
+    meta.description ? `description: ${quote(meta.description)}` : "",
+    meta.format ? `format: ${meta.format}` : "",
+    meta.captions ? `caption_lang: ${meta.captions.lang}` : "",
+    meta.captions ? `caption_kind: ${meta.captions.kind}` : "",
+    meta.captions?.translatedFrom ? `caption_translated_from: ${meta.captions.translatedFrom}` : "",
+    meta.contentHash ? `content_hash: ${meta.contentHash}` : "",
+    meta.version ? `version: ${meta.version}` : "",
+    meta.model ? `model: ${meta.model}` : "",
+    meta.prompt ? `prompt: ${meta.prompt}` : "",
+    ...(meta.usage
+      ? [
+          `input_tokens: ${meta.usage.inputTokens}`,
+          `output_tokens: ${meta.usage.outputTokens}`,
+          `cost_usd: ${Number(meta.usage.costUsd.toFixed(6))}`,
+          `duration_ms: ${meta.usage.durationMs}`,
+        ]
+      : []),
+  ].filter(Boolean);
+  return `---
+title: ${quote(meta.title)}
+url: "${meta.url}"
+date: ${date}
+type: ${meta.type}
+words: ${meta.words}${extra.map((line) => `\n${line}`).join("")}
+---`;
+}
+
+/** Split a stored markdown file into its frontmatter fields and body. */
+export function parseFrontmatter(text: string): {
+  fields: Record<string, string>;
+  body: string;
+} {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n*/);
+  if (!match) return { fields: {}, body: text.trim() };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split("\n")) {
+    const kv = line.match(/^(\w+):\s*(.*)$/);
+    if (!kv) continue;
+    let value = kv[2].trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      value = value.slice(1, -1).replace(/\\(["\\n])/g, (_, c) => (c === "n" ? "\n" : c));
+    }
+    fields[kv[1]] = value;
+  }
+  return { fields, body: text.slice(match[0].length).trim() };
+}
+
+/** Read a list field written as a JSON/YAML flow sequence, e.g. `aliases: ["a", "b"]`. */
+export function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list.map(String) : [];
+  } catch {
+    return [];
+  }
+}
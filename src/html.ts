@@ -1,5 +1,15 @@
-// Simple markdown -> HTML (handles: headings, bold, italic, lists, code, links, paragraphs)
-function md(text: string): string {
+import type { Quote, StructuredSummary } from "./structured";
+import type { StudyDeck } from "./study";
+import type { Meta } from "./frontmatter";
+import { extractVideoId } from "./youtube";
+import { timestampSeconds, formatTimestamp, isTranscriptType } from "./transcript";
+import { STDIN_SCHEME } from "./local";
+import { languageName, sameLang } from "./lang";
+import { markdownQuotes, withoutQuoteFlag } from "./quotes";
+
+// Simple markdown -> HTML (handles: headings, bold, italic, lists, code, links, paragraphs).
+// Checked quotes mark up the blockquote lines they came from.
+function md(text: string, quotes: Quote[] = []): string {
   // Extract code blocks first so blank lines inside them don't split the block
   const codeBlocks: string[] = [];
   const withCodePlaceholders = text.replace(
@@ -38,6 +48,22 @@ function md(text: string): string {
         return `<ul>${items.join("")}</ul>`;
       }
 
+      // Quote lines with a check: one blockquote each, with its badge
+      const lines = block.split("\n");
+      const checked = lines.map((l) => {
+        const [quote] = markdownQuotes(l);
+        return quote && quotes.find((q) => q.text === quote.text && q.check);
+      });
+      if (checked.every(Boolean)) {
+        return lines
+          .map((l, i) => {
+            const q = checked[i]!;
+            const content = withoutQuoteFlag(l).replace(/^>\s?/, "");
+            return `<blockquote class="quote-${q.check!.status}">${inline(content)}${quoteCheck(q)}</blockquote>`;
+          })
+          .join("\n");
+      }
+
       // Blockquotes
       if (block.startsWith("> ")) {
         const content = block
@@ -100,43 +126,94 @@ function inline(s: string): string {
   return result;
 }
 
-export function generateHTML(meta: {
-  title: string;
-  url: string;
-  type: "web" | "youtube" | "site";
-  date: string;
-  words: number;
-  pages?: number;
-  summary: string;
-}): string {
-  const summaryHTML = md(meta.summary);
+const QUOTE_LABELS = {
+  verified: "✓ verified in source",
+  approximate: "≈ approximate",
+  unverified: "✗ not found in source",
+};
 
-  let typeLabel: string;
-  let badgeKey: string;
-  switch (meta.type) {
-    case "youtube":
-      typeLabel = "Video";
-      badgeKey = "yt";
-      break;
-    case "site":
-      typeLabel = "Docs";
-      badgeKey = "site";
-      break;
-    default:
-      typeLabel = "Article";
-      badgeKey = "web";
+/** Verification badge for a quote; approximate and unverified ones expand to the closest source passage. */
+function quoteCheck(q: Quote): string {
+  if (!q.check) return "";
+  const label = `<span class="check">${QUOTE_LABELS[q.check.status]}</span>`;
+  if (q.check.status === "verified" || !q.check.passage) return `<div class="quote-check">${label}</div>`;
+  return `<details class="quote-check"><summary>${label} · closest passage</summary><p>${esc(q.check.passage)}</p></details>`;
+}
+
+/** Render a structured summary straight from its fields, no markdown round-trip. */
+function structuredHTML(s: StructuredSummary, type: string): string {
+  const parts = [
+    `<p class="tldr"><strong>TL;DR:</strong> ${inline(s.tldr)}</p>`,
+    `<h2>Key points</h2>`,
+    `<ul>${s.keyPoints.map((p) => `<li>${inline(p)}</li>`).join("")}</ul>`,
+  ];
+  if (s.sections.length) {
+    parts.push(`<h2>${type === "youtube" ? "Chapters" : "Sections"}</h2>`);
+    for (const section of s.sections) {
+      const title = section.url && /^https?:\/\//i.test(section.url)
+        ? `<a href="${esc(section.url)}" target="_blank">${esc(section.title)}</a>`
+        : esc(section.title);
+      parts.push(`<h3>${title}</h3>`, `<p>${inline(section.summary)}</p>`);
+    }
+  }
+  if (s.quotes.length) {
+    parts.push(`<h2>${isTranscriptType(type) ? "Notable moments" : "Notable quotes"}</h2>`);
+    for (const q of s.quotes) {
+      const cite = q.attribution ? `<cite>— ${esc(q.attribution)}</cite>` : "";
+      parts.push(`<blockquote class="${q.check ? `quote-${q.check.status}` : ""}">“${inline(q.text)}”${cite}${quoteCheck(q)}</blockquote>`);
+    }
+  }
+  if (s.tags.length) {
+    parts.push(`<div class="tags">${s.tags.map((t) => `<span class="tag">${esc(t)}</span>`).join("")}</div>`);
   }
+  return parts.join("\n");
+}
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-<meta charset="utf-8">
-<meta name="viewport" content="width=device-width, initial-scale=1">
-<title>${esc(meta.title)} - elsummariz00r</title>
-<style>
-  * { margin: 0; padding: 0; box-sizing: border-box; }
+/** "Japanese → English" when the summary is in another language than the source, else the summary's language. */
+function languageLabel(meta: { lang?: string; sourceLang?: string }): string | undefined {
+  if (!meta.lang) return undefined;
+  if (meta.sourceLang && !sameLang(meta.sourceLang, meta.lang)) {
+    return `${languageName(meta.sourceLang)} → ${languageName(meta.lang)}`;
+  }
+  return languageName(meta.lang);
+}
 
-  :root {
+/** A comparison's sources (a playlist's videos), numbered in list order to match the [n] citations in its text. */
+function sourcesHTML(sources: { slug: string; title: string; url: string }[], heading = "Sources"): string {
+  const items = sources.map(
+    (s) => `<li><a href="${esc(s.slug)}.html">${esc(s.title)}</a> <a class="source-link" href="${esc(s.url)}">source</a></li>`,
+  );
+  return `<h2>${heading}</h2>\n<ol class="sources">\n${items.join("\n")}\n</ol>`;
+}
+
+/** Turn [mm:ss] / [h:mm:ss] citations in a video summary into links that start the video there. */
+function linkTimestamps(html: string, url: string): string {
+  const videoId = extractVideoId(url);
+  if (!videoId) return html;
+  return html.replace(/\[((?:\d+:)?\d{1,2}:\d{2})\](?!\()/g, (match, stamp) => {
+    const seconds = timestampSeconds(stamp);
+    if (seconds === null) return match;
+    return `<a class="ts" href="https://www.youtube.com/watch?v=${videoId}&amp;t=${seconds}s">${match}</a>`;
+  });
+}
+
+/** Turn "p. N" / "pp. N-M" citations in a PDF summary into links that open the PDF at that page. */
+function linkPages(html: string, url: string): string {
+  return html.replace(/\b(pp?)\. (\d+)(?:[–-]\d+)?/g, (match, _, page) => {
+    return `<a class="page" href="${esc(url.replace(/#.*$/, ""))}#page=${page}">${match}</a>`;
+  });
+}
+
+/** Link [n] citations to the summary page of source n. */
+function linkCitations(html: string, sources: { slug: string }[]): string {
+  return html.replace(/\[(\d+)\](?!\()/g, (match, n) => {
+    const source = sources[parseInt(n) - 1];
+    return source ? `<a class="cite" href="${esc(source.slug)}.html">${match}</a>` : match;
+  });
+}
+
+// Tokyo Night palette, dark by default; the toggle switches to the light one and remembers it
+const THEME_VARS = `  :root {
     --bg: #1a1b26;
     --text: #c0c8d8;
     --heading: #e0e4ee;
@@ -154,6 +231,8 @@ export function generateHTML(meta: {
     --badge-web: #7aa2f7;
     --badge-site-bg: #73daca22;
     --badge-site: #73daca;
+    --badge-cmp-bg: #bb9af722;
+    --badge-cmp: #bb9af7;
     --toggle-bg: #24283b;
   }
 
@@ -175,8 +254,15 @@ export function generateHTML(meta: {
     --badge-web: #1565c0;
     --badge-site-bg: #00695c18;
     --badge-site: #00695c;
+    --badge-cmp-bg: #7b1fa218;
+    --badge-cmp: #7b1fa2;
     --toggle-bg: #e0e0e0;
-  }
+  }`;
+
+// Layout shared by the summary and quiz pages: theme, typography, header, meta line, footer
+const BASE_CSS = `  * { margin: 0; padding: 0; box-sizing: border-box; }
+
+${THEME_VARS}
 
   body {
     background: var(--bg);
@@ -193,9 +279,134 @@ export function generateHTML(meta: {
   a:hover { text-decoration: underline; }
   h1 { color: var(--heading); font-size: 1.5rem; margin-bottom: 0.5rem; line-height: 1.3; }
   h2 { color: var(--h2); font-size: 1.15rem; margin: 1.5rem 0 0.5rem; }
-  h3 { color: var(--h3); font-size: 1rem; margin: 1.2rem 0 0.4rem; }
   .meta { color: var(--meta); font-size: 0.85rem; margin-bottom: 2rem; }
   .meta span { margin-right: 1.5rem; }
+  hr { border: none; border-top: 1px solid var(--border); margin: 2rem 0; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 0.5rem; }
+  .footer { color: var(--meta); font-size: 0.8rem; margin-top: 3rem; }
+  .toggle {
+    background: var(--toggle-bg);
+    border: none;
+    color: var(--text);
+    font-family: inherit;
+    font-size: 0.85rem;
+    padding: 0.3rem 0.7rem;
+    border-radius: 4px;
+    cursor: pointer;
+    transition: background 0.3s, color 0.3s;
+  }
+  .toggle:hover { opacity: 0.8; }`;
+
+const THEME_SCRIPT = `  <script>
+    function toggleTheme() {
+      const root = document.documentElement;
+      const isLight = root.classList.toggle('light');
+      localStorage.setItem('els-theme', isLight ? 'light' : 'dark');
+      document.getElementById('themeBtn').textContent = isLight ? 'dark' : 'light';
+    }
+    // Restore saved preference
+    if (localStorage.getItem('els-theme') === 'light') {
+      document.documentElement.classList.add('light');
+      document.getElementById('themeBtn').textContent = 'dark';
+    }
+  </script>`;
+
+export function generateHTML(meta: {
+  title: string;
+  url: string;
+  type: Meta["type"];
+  date: string;
+  words: number;
+  pages?: number;
+  /** Summary revision; shown when the entry has been re-summarized. */
+  version?: number;
+  /** Summary style; shown unless it's the default. */
+  style?: string;
+  /** Summary and source languages, and the slug of the summary this one translates. */
+  lang?: string;
+  sourceLang?: string;
+  translatedFrom?: string;
+  /** A video's channel, publish date, length in seconds and chapter count. */
+  channel?: string;
+  published?: string;
+  duration?: number;
+  chapters?: number;
+  /** A local file's format (srt, vtt, text, markdown or html). */
+  format?: string;
+  /** A comparison's sources or a playlist's videos, in citation order. */
+  sources?: { slug: string; title: string; url: string }[];
+  /** File name of the entry's quiz page, once els study has made one. */
+  quiz?: string;
+  /** The latest "what changed" summary from els refresh, and when it was written. */
+  changes?: { date: string; summary: string };
+  summary: string;
+  /** Rendered instead of the markdown summary when present. */
+  structured?: StructuredSummary;
+  /** The markdown summary's quotes, checked against the source. */
+  quotes?: Quote[];
+}): string {
+  let summaryHTML = meta.structured
+    ? structuredHTML(meta.structured, meta.type)
+    : md(meta.summary, meta.quotes);
+  if (meta.sources?.length) {
+    const heading = meta.type === "playlist" ? "Videos" : "Sources";
+    summaryHTML = `${sourcesHTML(meta.sources, heading)}\n${linkCitations(summaryHTML, meta.sources)}`;
+  }
+  if (meta.changes) {
+    summaryHTML = `<div class="changes">
+<h2>What changed <span class="changes-date">${esc(meta.changes.date.slice(0, 10))}</span></h2>
+${md(meta.changes.summary)}
+</div>
+${summaryHTML}`;
+  }
+  if (meta.type === "youtube") summaryHTML = linkTimestamps(summaryHTML, meta.url);
+  if (meta.type === "pdf" && !meta.url.startsWith(STDIN_SCHEME)) summaryHTML = linkPages(summaryHTML, meta.url);
+
+  let typeLabel: string;
+  let badgeKey: string;
+  switch (meta.type) {
+    case "youtube":
+      typeLabel = "Video";
+      badgeKey = "yt";
+      break;
+    case "site":
+      typeLabel = "Docs";
+      badgeKey = "site";
+      break;
+    case "comparison":
+      typeLabel = "Comparison";
+      badgeKey = "cmp";
+      break;
+    case "playlist":
+      typeLabel = "Playlist";
+      badgeKey = "yt";
+      break;
+    case "subtitles":
+      typeLabel = "Transcript";
+      badgeKey = "yt";
+      break;
+    case "document":
+      typeLabel = "Document";
+      badgeKey = "web";
+      break;
+    case "pdf":
+      typeLabel = "PDF";
+      badgeKey = "web";
+      break;
+    default:
+      typeLabel = "Article";
+      badgeKey = "web";
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${esc(meta.lang || "en")}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(meta.title)} - elsummariz00r</title>
+<style>
+${BASE_CSS}
+  h3 { color: var(--h3); font-size: 1rem; margin: 1.2rem 0 0.4rem; }
   .type-badge {
     background: var(--badge-${badgeKey}-bg);
     color: var(--badge-${badgeKey});
@@ -230,21 +441,44 @@ export function generateHTML(meta: {
     color: var(--quote);
     margin: 1rem 0;
   }
-  hr { border: none; border-top: 1px solid var(--border); margin: 2rem 0; }
-  .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 0.5rem; }
-  .footer { color: var(--meta); font-size: 0.8rem; margin-top: 3rem; }
-  .toggle {
-    background: var(--toggle-bg);
-    border: none;
-    color: var(--text);
-    font-family: inherit;
+  .summary blockquote cite {
+    display: block;
+    color: var(--meta);
+    font-style: normal;
     font-size: 0.85rem;
-    padding: 0.3rem 0.7rem;
+    margin-top: 0.3rem;
+  }
+  .quote-check { font-size: 0.8rem; font-style: normal; margin-top: 0.3rem; color: var(--meta); }
+  .quote-check summary { cursor: pointer; list-style: none; }
+  .quote-check p { margin: 0.4rem 0 0; padding-left: 0.8rem; border-left: 2px solid var(--border); color: var(--text); }
+  .quote-verified .check { color: var(--h2); }
+  .quote-approximate .check { color: var(--em); }
+  .quote-unverified .check { color: var(--badge-yt); }
+  .summary blockquote.quote-unverified { border-left-color: var(--badge-yt); }
+  .sources { margin: 0.5rem 0 1.5rem 1.5rem; }
+  .sources li { margin-bottom: 0.3rem; }
+  .source-link { color: var(--meta); font-size: 0.8rem; margin-left: 0.5rem; }
+  .cite { font-size: 0.85em; }
+  .ts, .page { font-size: 0.85em; white-space: nowrap; }
+  .changes {
+    border: 1px solid var(--border);
+    border-left: 3px solid var(--em);
     border-radius: 4px;
-    cursor: pointer;
-    transition: background 0.3s, color 0.3s;
+    padding: 0.2rem 1rem 0.2rem;
+    margin-bottom: 1.5rem;
+  }
+  .changes h2 { margin-top: 0.8rem; }
+  .changes-date { color: var(--meta); font-size: 0.8rem; font-weight: normal; margin-left: 0.5rem; }
+  .tags { margin-top: 1.5rem; }
+  .tag {
+    display: inline-block;
+    background: var(--code-bg);
+    color: var(--meta);
+    padding: 0.1rem 0.5rem;
+    border-radius: 3px;
+    font-size: 0.8rem;
+    margin: 0 0.4rem 0.4rem 0;
   }
-  .toggle:hover { opacity: 0.8; }
 </style>
 </head>
 <body>
@@ -255,9 +489,20 @@ export function generateHTML(meta: {
   <div class="meta">
     <span class="type-badge">${typeLabel}</span>
     <span>${meta.date}</span>
+    ${meta.channel ? `<span>${esc(meta.channel)}</span>` : ""}
+    ${meta.published ? `<span>published ${esc(meta.published)}</span>` : ""}
+    ${meta.duration ? `<span>${formatTimestamp(meta.duration * 1000)}</span>` : ""}
+    ${meta.chapters ? `<span>${meta.chapters} chapters</span>` : ""}
+    ${meta.format ? `<span>${esc(meta.format)}</span>` : ""}
     ${meta.pages ? `<span>${meta.pages} pages</span>` : ""}
+    ${meta.sources?.length ? `<span>${meta.sources.length} ${meta.type === "playlist" ? "videos" : "sources"}</span>` : ""}
     <span>~${meta.words.toLocaleString()} words</span>
-    <span><a href="${esc(meta.url)}">source</a></span>
+    ${meta.style && meta.style !== "default" ? `<span>${esc(meta.style)}</span>` : ""}
+    ${meta.version && meta.version > 1 ? `<span>v${meta.version}</span>` : ""}
+    ${languageLabel(meta) ? `<span>${esc(languageLabel(meta)!)}</span>` : ""}
+    ${meta.translatedFrom ? `<span><a href="${esc(meta.translatedFrom)}.html">original</a></span>` : ""}
+    ${meta.quiz ? `<span><a href="${esc(meta.quiz)}">quiz</a></span>` : ""}
+    ${meta.type === "comparison" || meta.url.startsWith(STDIN_SCHEME) ? "" : `<span><a href="${esc(meta.url)}">source</a></span>`}
   </div>
   <hr>
   <div class="summary">
@@ -265,19 +510,116 @@ export function generateHTML(meta: {
   </div>
   <hr>
   <div class="footer">elsummariz00r</div>
+${THEME_SCRIPT}
+</body>
+</html>`;
+}
+
+/** Interactive quiz and flip-cards for a study deck, linked from and back to the summary page. */
+export function generateQuizHTML(meta: {
+  slug: string;
+  title: string;
+  url: string;
+  date: string;
+  lang?: string;
+  deck: StudyDeck;
+}): string {
+  const questions = meta.deck.quiz.map((q, i) => {
+    const options = q.options
+      .map((o, j) => `<li><button class="option" data-index="${j}">${inline(o)}</button></li>`)
+      .join("");
+    const explanation = q.explanation ? `<p class="explanation">${inline(q.explanation)}</p>` : "";
+    return `<li class="question" data-answer="${q.answer}">
+<p>${inline(q.question)}</p>
+<ol class="options">${options}</ol>
+${explanation}
+</li>`;
+  });
+  const cards = meta.deck.cards.map(
+    (c) => `<details class="card"><summary>${inline(c.question)}</summary><p>${inline(c.answer)}</p></details>`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="${esc(meta.lang || "en")}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Quiz: ${esc(meta.title)} - elsummariz00r</title>
+<style>
+${BASE_CSS}
+  code { background: var(--code-bg); padding: 0.15rem 0.4rem; border-radius: 3px; font-size: 0.9em; }
+  strong { color: var(--heading); }
+  em { color: var(--em); }
+  .score { color: var(--h3); }
+  .quiz { margin-left: 1.5rem; }
+  .question { margin-bottom: 1.5rem; }
+  .options { list-style: lower-alpha; margin: 0.5rem 0 0 1.5rem; }
+  .options li { margin-bottom: 0.3rem; }
+  .option {
+    background: none;
+    border: 1px solid var(--border);
+    border-radius: 4px;
+    color: var(--text);
+    font: inherit;
+    text-align: left;
+    padding: 0.2rem 0.6rem;
+    cursor: pointer;
+  }
+  .option:hover:enabled { border-color: var(--link); }
+  .option:disabled { cursor: default; }
+  .option.correct { border-color: var(--h2); color: var(--h2); }
+  .option.wrong { border-color: var(--badge-yt); color: var(--badge-yt); }
+  .explanation { display: none; color: var(--meta); font-size: 0.9rem; margin-top: 0.4rem; }
+  .answered .explanation { display: block; }
+  .card { border: 1px solid var(--border); border-radius: 4px; padding: 0.5rem 1rem; margin-bottom: 0.6rem; }
+  .card summary { cursor: pointer; }
+  .card p { margin-top: 0.5rem; color: var(--quote); }
+</style>
+</head>
+<body>
+  <div class="header">
+    <h1>${esc(meta.title)}</h1>
+    <button class="toggle" onclick="toggleTheme()" id="themeBtn">light</button>
+  </div>
+  <div class="meta">
+    <span>${meta.date}</span>
+    <span>${meta.deck.quiz.length} questions</span>
+    <span>${meta.deck.cards.length} cards</span>
+    <span><a href="${esc(meta.slug)}.html">summary</a></span>
+    <span><a href="${esc(meta.url)}">source</a></span>
+  </div>
+  <hr>
+  ${questions.length ? `<h2>Quiz <span class="score" id="score"></span></h2>
+  <ol class="quiz">
+${questions.join("\n")}
+  </ol>` : ""}
+  <h2>Flashcards</h2>
+  ${cards.join("\n  ")}
+  <hr>
+  <div class="footer">elsummariz00r</div>
   <script>
-    function toggleTheme() {
-      const root = document.documentElement;
-      const isLight = root.classList.toggle('light');
-      localStorage.setItem('els-theme', isLight ? 'light' : 'dark');
-      document.getElementById('themeBtn').textContent = isLight ? 'dark' : 'light';
-    }
-    // Restore saved preference
-    if (localStorage.getItem('els-theme') === 'light') {
-      document.documentElement.classList.add('light');
-      document.getElementById('themeBtn').textContent = 'dark';
+    // One try per question: mark the pick, reveal the right option and the explanation
+    let answered = 0;
+    let correct = 0;
+    const total = document.querySelectorAll('.question').length;
+    for (const question of document.querySelectorAll('.question')) {
+      const buttons = question.querySelectorAll('.option');
+      for (const button of buttons) {
+        button.addEventListener('click', () => {
+          const answer = Number(question.dataset.answer);
+          const pick = Number(button.dataset.index);
+          buttons.forEach((b) => (b.disabled = true));
+          buttons[answer].classList.add('correct');
+          if (pick !== answer) button.classList.add('wrong');
+          question.classList.add('answered');
+          answered++;
+          if (pick === answer) correct++;
+          document.getElementById('score').textContent = correct + '/' + answered + (answered === total ? ' · done' : '');
+        });
+      }
     }
   </script>
+${THEME_SCRIPT}
 </body>
 </html>`;
 }
@@ -1,149 +1,78 @@
-import { runSummarize, runSummarizeSite, runDiscuss } from "./run";
 import { loadEnv } from "./env";
+import { parseArgs, formatHelp, UsageError, type Command } from "./cli";
+import { red } from "./terminal";
+import { summarizeCommand } from "./commands/summarize";
+import { searchCommand } from "./commands/search";
+import { listCommand } from "./commands/list";
+import { showCommand } from "./commands/show";
+import { openCommand } from "./commands/open";
+import { rmCommand } from "./commands/rm";
+import { renderCommand } from "./commands/render";
+import { historyCommand } from "./commands/history";
+import { stylesCommand } from "./commands/styles";
+import { statsCommand } from "./commands/stats";
+import { translateCommand } from "./commands/translate";
+import { compareCommand } from "./commands/compare";
+import { watchCommand } from "./commands/watch";
+import { refreshCommand } from "./commands/refresh";
+import { studyCommand } from "./commands/study";
+import { transcriptCommand } from "./commands/transcript";
 
 await loadEnv();
 
-// Parse CLI args: els [--discuss] [--json] [--redo] [url]
-const args = process.argv.slice(2);
-let discuss = false;
-let json = false;
-let redo = false;
-let forceNew = false;
-let site = false;
-let url: string | undefined;
-let title: string | undefined;
+// Subcommands. Anything else is treated as the default summarize command: els [options] [url]
+const COMMANDS: Command[] = [
+  searchCommand,
+  listCommand,
+  showCommand,
+  transcriptCommand,
+  openCommand,
+  rmCommand,
+  renderCommand,
+  historyCommand,
+  translateCommand,
+  compareCommand,
+  watchCommand,
+  refreshCommand,
+  studyCommand,
+  stylesCommand,
+  statsCommand,
+];
 
-for (const arg of args) {
-  if (arg === "--discuss" || arg === "-d") discuss = true;
-  else if (arg === "--json") json = true;
-  else if (arg === "--redo" || arg === "-r") redo = true;
-  else if (arg === "--new" || arg === "-n") forceNew = true;
-  else if (arg === "--site" || arg === "-s") site = true;
-  else if (arg === "--discuss-latest") {
-    await runDiscuss();
-    process.exit(0);
-  } else if (arg.startsWith("--discuss-url=")) {
-    const newFlag = args.includes("--new") || args.includes("-n");
-    await runDiscuss(undefined, arg.slice(14), newFlag);
-    process.exit(0);
-  } else if (arg.startsWith("--title=")) title = arg.slice(8);
-  else if (!arg.startsWith("-")) url = arg;
-}
-
-// ANSI colors for terminal output
-const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
-const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
-const cyan = (s: string) => `\x1b[36m${s}\x1b[0m`;
-const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
-const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
-
-const PAD = "    ";
-const MARGIN = 4; // left padding chars
-const RIGHT_MARGIN = 4;
-
-/** Strip ANSI escape codes to get visible character count */
-function visibleLength(s: string): number {
-  return s.replace(/\x1b\[[0-9;]*m/g, "").length;
+function mainHelp(): string {
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  return [
+    formatHelp(summarizeCommand),
+    "",
+    "Commands:",
+    ...COMMANDS.map((c) => `  ${c.name.padEnd(width)}  ${c.description}`),
+    "",
+    "Run 'els <command> --help' for command options.",
+  ].join("\n");
 }
 
-/** Word-wrap a line to fit within maxWidth visible characters */
-function wrapLine(line: string, maxWidth: number): string[] {
-  // Don't wrap short lines or empty lines
-  if (visibleLength(line) <= maxWidth || line.trim() === "") return [line];
-
-  const words = line.split(" ");
-  const lines: string[] = [];
-  let current = "";
-
-  for (const word of words) {
-    const test = current ? current + " " + word : word;
-    if (visibleLength(test) > maxWidth && current) {
-      lines.push(current);
-      current = word;
-    } else {
-      current = test;
-    }
-  }
-  if (current) lines.push(current);
-  return lines;
-}
-
-/** Convert markdown formatting to ANSI escape codes for terminal display */
-function mdToAnsi(text: string): string {
-  const cols = process.stdout.columns || 80;
-  const maxWidth = cols - MARGIN - RIGHT_MARGIN;
-
-  return text
-    // Headings: ## Heading → bold cyan
-    .replace(/^#{1,3}\s+(.+)$/gm, (_, h) => `\x1b[1;36m${h}\x1b[0m`)
-    // Bold+italic: ***text*** or ___text___
-    .replace(/\*{3}(.+?)\*{3}/g, (_, t) => `\x1b[1;3m${t}\x1b[0m`)
-    // Bold: **text**
-    .replace(/\*{2}(.+?)\*{2}/g, (_, t) => `\x1b[1m${t}\x1b[0m`)
-    // Italic: *text*
-    .replace(/(?<!\*)\*(?!\*)(.+?)(?<!\*)\*(?!\*)/g, (_, t) => `\x1b[3m${t}\x1b[0m`)
-    // Inline code: `code`
-    .replace(/`([^`]+)`/g, (_, t) => `\x1b[33m${t}\x1b[0m`)
-    // Blockquotes: > text → dim italic
-    .replace(/^>\s*(.+)$/gm, (_, t) => `\x1b[2;3m  ${t}\x1b[0m`)
-    // Word-wrap and add padding
-    .split("\n")
-    .flatMap((line) => wrapLine(line, maxWidth))
-    .map((line) => PAD + line)
-    .join("\n");
-}
+const argv = process.argv.slice(2);
+const sub = COMMANDS.find((c) => c.name === argv[0]);
+const command = sub ?? summarizeCommand;
+const json = argv.includes("--json");
+const jsonStream = argv.includes("--json-stream");
 
 try {
-  const result = site
-    ? await runSummarizeSite({ url, redo })
-    : await runSummarize({ url, title, redo });
-
-  if (json) {
-    // Machine-readable output for userscripts
-    console.log(JSON.stringify({
-      slug: result.slug,
-      title: result.title,
-      summary: result.summary,
-      htmlPath: result.htmlPath,
-      cached: result.cached || false,
-    }));
-  } else {
-    // Human-readable output for CLI
-    const cols = process.stdout.columns || 80;
-    const ruleWidth = cols - MARGIN - RIGHT_MARGIN;
-    const rule = PAD + dim("─".repeat(ruleWidth));
-    if (result.cached) {
-      console.log(rule);
-      console.log(PAD + yellow("(cached) ") + bold(result.title));
-      console.log(rule);
-    } else {
-      console.log(rule);
-      console.log(PAD + bold(result.title));
-      console.log(rule);
-    }
-    console.log("");
-    console.log(mdToAnsi(result.summary));
-    console.log("");
-    console.log(rule);
-    console.log(`${PAD}${dim("slug")}  ${cyan(result.slug)}`);
-    console.log(`${PAD}${dim("file")}  ${green(result.htmlPath)}`);
-    if (result.cached) {
-      console.log(`${PAD}      ${dim("use --redo to re-summarize")}`);
-    }
-    console.log(rule);
-  }
-
-  if (discuss) {
-    console.error("  Opening discussion session...");
-    await runDiscuss(result.slug, undefined, forceNew);
+  const args = parseArgs(sub ? argv.slice(1) : argv, command.flags);
+  if (args.flags.help) {
+    console.log(sub ? formatHelp(command) : mainHelp());
+    process.exit(0);
   }
-
+  await command.run(args);
   process.exit(0);
 } catch (err: any) {
-  if (json) {
+  if (jsonStream) {
+    console.log(JSON.stringify({ event: "error", error: err.message }));
+  } else if (json) {
     console.log(JSON.stringify({ error: err.message }));
   } else {
-    console.error(`\x1b[31mError: ${err.message}\x1b[0m`);
+    console.error(red(`Error: ${err.message}`));
+    if (err instanceof UsageError) console.error(`Usage: ${command.usage} (see --help)`);
   }
-  process.exit(1);
+  process.exit(err instanceof UsageError ? 2 : 1);
 }
@@ -0,0 +1,125 @@
+// Summary and source languages, as lowercase BCP 47 codes ("de", "pt-br", "zh-tw")
+
+const LANGUAGES: Record<string, string> = {
+  ar: "Arabic",
+  bg: "Bulgarian",
+  ca: "Catalan",
+  cs: "Czech",
+  da: "Danish",
+  de: "German",
+  el: "Greek",
+  en: "English",
+  es: "Spanish",
+  et: "Estonian",
+  fa: "Persian",
+  fi: "Finnish",
+  fr: "French",
+  he: "Hebrew",
+  hi: "Hindi",
+  hr: "Croatian",
+  hu: "Hungarian",
+  id: "Indonesian",
+  it: "Italian",
+  ja: "Japanese",
+  ko: "Korean",
+  lt: "Lithuanian",
+  lv: "Latvian",
+  nl: "Dutch",
+  no: "Norwegian",
+  pl: "Polish",
+  pt: "Portuguese",
+  "pt-br": "Brazilian Portuguese",
+  ro: "Romanian",
+  ru: "Russian",
+  sk: "Slovak",
+  sl: "Slovenian",
+  sr: "Serbian",
+  sv: "Swedish",
+  th: "Thai",
+  tr: "Turkish",
+  uk: "Ukrainian",
+  vi: "Vietnamese",
+  zh: "Chinese",
+  "zh-tw": "Traditional Chinese",
+};
+
+/** "de" → "German". Unknown codes are returned as given so the model can still make sense of them. */
+export function languageName(code: string): string {
+  return LANGUAGES[code] ?? LANGUAGES[code.split("-")[0]] ?? code;
+}
+
+/** Accept a language code or English name ("de", "DE-at", "german"); return the normalized code. */
+export function parseLang(input: string): string {
+  const value = input.trim().toLowerCase().replace(/_/g, "-");
+  const byName = Object.entries(LANGUAGES).find(([, name]) => name.toLowerCase() === value);
+  if (byName) return byName[0];
+  if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/.test(value)) throw new Error(`Invalid language: ${input}`);
+  return value;
+}
+
+/** Default summary language from ELS_LANG, if set. */
+export function getLang(): string | undefined {
+  return process.env.ELS_LANG ? parseLang(process.env.ELS_LANG) : undefined;
+}
+
+/** Same language, ignoring region: "en-us" matches "en". */
+export function sameLang(a: string, b: string): boolean {
+  return a.split("-")[0] === b.split("-")[0];
+}
+
+// Scripts that pin down the language on their own, checked in order (kana before Han)
+const SCRIPTS: [RegExp, string][] = [
+  [/[぀-ヿ]/g, "ja"],
+  [/[가-힯]/g, "ko"],
+  [/[一-鿿]/g, "zh"],
+  [/[؀-ۿ]/g, "ar"],
+  [/[֐-׿]/g, "he"],
+  [/[Ͱ-Ͽ]/g, "el"],
+  [/[ऀ-ॿ]/g, "hi"],
+  [/[฀-๿]/g, "th"],
+];
+
+// Frequent short words per Latin/Cyrillic-script language
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "that", "in", "it", "for", "with", "this", "are"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "ein", "zu", "mit", "sich", "auf", "für"],
+  fr: ["le", "la", "les", "et", "des", "est", "une", "que", "pour", "dans", "pas", "qui"],
+  es: ["el", "la", "los", "que", "y", "es", "por", "una", "para", "con", "las", "del"],
+  it: ["il", "che", "di", "e", "la", "è", "per", "una", "non", "sono", "della", "gli"],
+  pt: ["o", "que", "e", "não", "uma", "para", "com", "os", "da", "do", "é", "em"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "niet", "op", "zijn", "voor", "met"],
+  sv: ["och", "att", "det", "som", "är", "en", "på", "för", "med", "inte", "av", "den"],
+  pl: ["i", "w", "nie", "się", "na", "jest", "że", "to", "z", "do", "jak", "ale"],
+  tr: ["ve", "bir", "bu", "için", "da", "de", "ile", "çok", "olarak", "daha", "gibi", "ne"],
+  ru: ["и", "в", "не", "на", "что", "с", "это", "как", "по", "но", "он", "из"],
+  uk: ["і", "в", "не", "на", "що", "з", "це", "як", "та", "до", "але", "від"],
+};
+
+/**
+ * Best guess at the language of a text: the script for scripts used by one language, otherwise
+ * the language whose common words turn up most. Undefined when there's too little to go on.
+ */
+export function detectLanguage(text: string): string | undefined {
+  const sample = text.slice(0, 20_000);
+  const letters = (sample.match(/\p{L}/gu) ?? []).length;
+  if (letters < 20) return undefined;
+  for (const [script, lang] of SCRIPTS) {
+    if ((sample.match(script) ?? []).length / letters > 0.2) return lang;
+  }
+
+  const counts = new Map<string, number>();
+  // Whole words only, so tokens like "w1x0" don't turn into one-letter stopwords
+  for (const word of sample.toLowerCase().split(/[^\p{L}\p{N}'’-]+/u)) {
+    if (/^\p{L}+$/u.test(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  let bestScore = 0;
+  for (const [lang, words] of Object.entries(STOPWORDS)) {
+    const score = words.reduce((sum, w) => sum + (counts.get(w) ?? 0), 0);
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  }
+  return bestScore >= 3 ? best : undefined;
+}
@@ -0,0 +1,216 @@
+import { basename, extname, resolve } from "node:path";
+import { pathToFileURL, fileURLToPath } from "node:url";
+import { createHash } from "node:crypto";
+import { toTranscript, type CaptionSegment } from "./transcript";
+import { extractTitle } from "./site";
+import { parsePdf, isPdf, formatPdfPages, stripPageMarkers } from "./pdf";
+
+// Local files and stdin. Subtitles become timestamped transcripts like YouTube captions
+// (see transcript.ts); text, Markdown and HTML documents become plain text with paragraphs kept;
+// PDFs become their pages' text with page markers (see pdf.ts).
+
+export type LocalFormat = "srt" | "vtt" | "text" | "markdown" | "html" | "pdf";
+
+export interface LocalSource {
+  /** file:// URL of the file, or stdin:<hash> for piped input so the same text dedups. */
+  url: string;
+  title: string;
+  type: "subtitles" | "document" | "pdf";
+  format: LocalFormat;
+  content: string;
+  /** Page count, for PDFs. */
+  pages?: number;
+}
+
+export const STDIN_SCHEME = "stdin:";
+
+const EXTENSIONS: Record<string, LocalFormat> = {
+  ".srt": "srt",
+  ".vtt": "vtt",
+  ".txt": "text",
+  ".text": "text",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".html": "html",
+  ".htm": "html",
+  ".pdf": "pdf",
+};
+
+const CUE_TIME = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * A file path as a file:// URL: one that exists, or one written as a path (/, ./, ../, ~/) so a
+ * typo reports the missing file. Anything else (URLs, bare domains) is returned as is.
+ */
+export async function toFileUrl(input: string): Promise<string> {
+  if (input === "-" || /^[a-z][a-z0-9+.-]*:/i.test(input)) return input;
+  const path = resolve(input.replace(/^~(?=\/)/, process.env.HOME || "~"));
+  const isPath = /^(?:\/|\.\.?\/|~\/)/.test(input);
+  return isPath || (await Bun.file(path).exists()) ? pathToFileURL(path).href : input;
+}
+
+export function isLocal(url: string): boolean {
+  return url.startsWith("file://") || url.startsWith(STDIN_SCHEME);
+}
+
+/** Format from the file extension, else sniffed from the content. */
+export function detectFormat(text: string, name = ""): LocalFormat {
+  const ext = extname(name).toLowerCase();
+  if (EXTENSIONS[ext]) return EXTENSIONS[ext];
+  if (ext && ext !== ".") {
+    throw new Error(`Unsupported file type ${ext} (expected .srt, .vtt, .txt, .md, .html or .pdf)`);
+  }
+  const head = text.replace(/^\uFEFF/, "").trimStart().slice(0, 2000);
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (/^\d+\r?\n[\d:,]+\s*-->/.test(head)) return "srt";
+  if (/^<!doctype html|^<html[\s>]/i.test(head)) return "html";
+  if (/^(?:#{1,6} |---\r?\n)|\n#{1,6} /.test(head)) return "markdown";
+  return "text";
+}
+
+function cueMs(stamp: string): number {
+  const [clock, fraction] = stamp.split(/[.,]/);
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + parseInt(part), 0);
+  return seconds * 1000 + parseInt(fraction.padEnd(3, "0"));
+}
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(parseInt(n)))
+    .replace(/&amp;/g, "&");
+}
+
+/** One caption line without markup. WebVTT voice tags (meeting exports) become "Speaker: ". */
+function cueLine(line: string): string {
+  return decodeEntities(
+    line
+      .replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/g, "$1: ")
+      .replace(/<[^>]+>/g, "")
+      .replace(/\{\\[^}]*\}/g, ""),
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Cues of an SRT or WebVTT file. Header, NOTE and STYLE blocks are skipped. Rolling captions
+ * repeat the previous cue's line; each line is kept once.
+ */
+export function parseSubtitles(text: string): CaptionSegment[] {
+  const segments: CaptionSegment[] = [];
+  let lastLine = "";
+  for (const block of text.replace(/\r/g, "").split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const timing = lines.findIndex((l) => CUE_TIME.test(l));
+    if (timing === -1) continue;
+    const [, from, to] = lines[timing].match(CUE_TIME)!;
+    const fresh: string[] = [];
+    for (const line of lines.slice(timing + 1).map(cueLine)) {
+      if (line && line !== lastLine) fresh.push(line);
+      if (line) lastLine = line;
+    }
+    if (fresh.length === 0) continue;
+    const start = cueMs(from);
+    segments.push({ start, duration: Math.max(cueMs(to) - start, 0), text: fresh.join(" ") });
+  }
+  return segments;
+}
+
+/** Readable text from an HTML document: scripts and page chrome dropped, block elements on their own paragraphs. */
+export function htmlDocumentText(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return decodeEntities(
+    body
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|noscript|template|svg|nav|header|footer)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/?(p|div|section|article|main|aside|h[1-6]|ul|ol|table|tr|blockquote|pre|figure|dl|dt|dd)\b[^>]*>/gi, "\n\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** A Markdown document without its YAML frontmatter, and the frontmatter's title if it has one. */
+function markdownBody(text: string): { title?: string; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (!match) return { body: text.trim() };
+  const title = match[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+  return { title, body: text.slice(match[0].length).trim() };
+}
+
+/** First Markdown heading, else the first line if it's short enough to be a title. */
+function firstHeading(text: string): string | undefined {
+  const heading = text.match(/^#{1,6}\s+(.+)$/m)?.[1];
+  if (heading) return heading.replace(/#+\s*$/, "").trim();
+  const first = text.trimStart().split("\n", 1)[0].trim();
+  return first && first.length <= 80 ? first : undefined;
+}
+
+/** Parse raw input of a known format into a source. `name` is the file name, for the fallback title. */
+export function parseLocal(raw: string, format: LocalFormat, url: string, name: string): LocalSource {
+  const text = raw.replace(/^\uFEFF/, "");
+  const fallback = name.replace(/\.[^.]+$/, "") || "Untitled";
+
+  if (format === "srt" || format === "vtt") {
+    const segments = parseSubtitles(text);
+    if (segments.length === 0) throw new Error(`No subtitle cues found in ${name}`);
+    return { url, title: fallback, type: "subtitles", format, content: toTranscript(segments) };
+  }
+  if (format === "html") {
+    const content = htmlDocumentText(text);
+    const title = extractTitle(text);
+    return { url, title: title !== "Untitled" ? title : fallback, type: "document", format, content };
+  }
+  if (format === "markdown") {
+    const { title, body } = markdownBody(text);
+    return { url, title: title || firstHeading(body) || fallback, type: "document", format, content: body };
+  }
+  const content = text.replace(/\r\n?/g, "\n").trim();
+  return { url, title: firstHeading(content) || fallback, type: "document", format, content };
+}
+
+/** A PDF's pages as a source, titled from its metadata. */
+export function pdfSource(bytes: Uint8Array, url: string, name: string): LocalSource {
+  const doc = parsePdf(bytes);
+  const content = formatPdfPages(doc.pages);
+  if (!content) throw new Error(`No text found in ${name} (scanned PDFs need OCR first)`);
+  // Piped PDFs have no file name to fall back on; their first line will do
+  const fallback = url.startsWith(STDIN_SCHEME) ? firstHeading(stripPageMarkers(content)) : name.replace(/\.pdf$/i, "");
+  const title = doc.title || fallback || "Untitled";
+  return { url, title, type: "pdf", format: "pdf", content, pages: doc.pages.length };
+}
+
+/** PDFs by extension or header; everything else is decoded as UTF-8 text. */
+function parseBytes(bytes: Uint8Array, url: string, name: string): LocalSource {
+  if (extname(name).toLowerCase() === ".pdf" || isPdf(bytes)) return pdfSource(bytes, url, name);
+  const raw = new TextDecoder().decode(bytes);
+  return parseLocal(raw, detectFormat(raw, name), url, name);
+}
+
+/** Read a file:// URL. */
+export async function readLocalFile(url: string): Promise<LocalSource> {
+  const path = fileURLToPath(url);
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`No such file: ${path}`);
+  const source = parseBytes(new Uint8Array(await file.arrayBuffer()), url, basename(path));
+  if (!source.content.trim()) throw new Error(`No text found in ${path}`);
+  return source;
+}
+
+/** Read piped input. Its URL is stdin:<hash of the input>, so piping the same input again dedups. */
+export async function readStdin(): Promise<LocalSource> {
+  if (process.stdin.isTTY) throw new Error("Nothing piped to stdin (use - only with a pipe or redirect)");
+  const bytes = new Uint8Array(await Bun.stdin.arrayBuffer());
+  if (!bytes.some((b) => b > 0x20)) throw new Error("stdin was empty");
+  const hash = createHash("sha256").update(bytes).digest("hex").slice(0, 16);
+  return parseBytes(bytes, `${STDIN_SCHEME}${hash}`, "stdin");
+}
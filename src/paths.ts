@@ -0,0 +1,12 @@
+import { join } from "node:path";
+
+if (!process.env.HOME) throw new Error("HOME environment variable not set");
+export const HOME = join(process.env.HOME, ".elsummariz00r");
+export const ARTICLES_DIR = join(HOME, "articles");
+export const SUMMARIES_DIR = join(HOME, "summaries");
+export const HTML_DIR = join(HOME, "html");
+export const VERSIONS_DIR = join(HOME, "versions");
+export const STUDY_DIR = join(HOME, "study");
+export const CHECKPOINTS_DIR = join(HOME, "checkpoints");
+export const USAGE_LEDGER = join(HOME, "usage.jsonl");
+export const WATCHLIST = join(HOME, "watch.json");
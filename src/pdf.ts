@@ -0,0 +1,986 @@
+import { inflateSync, constants } from "node:zlib";
+import { withRetry } from "./retry";
+import { UA } from "./ua";
+
+// Text extraction from PDFs, without dependencies. Enough of the format for text-based
+// documents: objects and object streams, Flate/ASCIIHex/ASCII85 streams, the page tree, text
+// operators with font encodings and ToUnicode maps, and form XObjects. Scanned pages (images)
+// have no text to find, and encrypted files are refused. Composite (Type0) fonts without a
+// ToUnicode map, common for CJK text, have no way back to text either: their glyphs are counted,
+// pages that lose most of theirs are reported, and a document that loses most of its text is
+// refused rather than passed on as fragments.
+//
+// The stored article is the pages in order, each starting with a "[p. N]" marker line, so
+// summaries can cite pages and chunks can be cut between them.
+
+export interface PdfDocument {
+  /** The title from the document's metadata, when it has a usable one. */
+  title?: string;
+  /** Text of each page in order; empty for pages without text. */
+  pages: string[];
+}
+
+const PAGE_MARKER = /^\[p\. (\d+)\]$/;
+// Form XObjects can nest; deeper than this is a loop or not worth following
+const MAX_FORM_DEPTH = 5;
+// Share of a page's (or the document's) glyphs without text above which it counts as unreadable
+const MAX_UNMAPPED = 0.5;
+
+// --- Object model ---
+
+interface PdfName {
+  name: string;
+}
+interface PdfString {
+  /** Raw bytes, one char per byte. */
+  bytes: string;
+}
+interface PdfRef {
+  ref: number;
+}
+interface PdfDict {
+  dict: Record<string, PdfValue>;
+}
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  /** Offset of the raw stream data in the file, for stream objects. */
+  streamStart?: number;
+}
+
+const isName = (v: unknown): v is PdfName => typeof v === "object" && v !== null && "name" in v;
+const isString = (v: unknown): v is PdfString => typeof v === "object" && v !== null && "bytes" in v;
+const isRef = (v: unknown): v is PdfRef => typeof v === "object" && v !== null && "ref" in v;
+const isDict = (v: unknown): v is PdfDict => typeof v === "object" && v !== null && "dict" in v;
+
+// --- Lexer and parser, shared by objects, content streams and CMaps ---
+
+const WHITESPACE = new Set(["\0", "\t", "\n", "\f", "\r", " "]);
+const DELIMITERS = new Set(["(", ")", "<", ">", "[", "]", "{", "}", "/", "%"]);
+
+interface Cursor {
+  s: string;
+  i: number;
+}
+
+function skipSpace(c: Cursor): void {
+  while (c.i < c.s.length) {
+    const ch = c.s[c.i];
+    if (WHITESPACE.has(ch)) {
+      c.i++;
+    } else if (ch === "%") {
+      while (c.i < c.s.length && c.s[c.i] !== "\n" && c.s[c.i] !== "\r") c.i++;
+    } else {
+      return;
+    }
+  }
+}
+
+/** A regular token: a number, operator or keyword. */
+function readWord(c: Cursor): string {
+  const start = c.i;
+  while (c.i < c.s.length && !WHITESPACE.has(c.s[c.i]) && !DELIMITERS.has(c.s[c.i])) c.i++;
+  return c.s.slice(start, c.i);
+}
+
+function readName(c: Cursor): PdfName {
+  c.i++; // "/"
+  return { name: readWord(c).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\" };
+
+function readLiteralString(c: Cursor): PdfString {
+  c.i++; // "("
+  let depth = 1;
+  let out = "";
+  while (c.i < c.s.length) {
+    const ch = c.s[c.i++];
+    if (ch === "\\") {
+      const next = c.s[c.i++];
+      if (ESCAPES[next]) {
+        out += ESCAPES[next];
+      } else if (next >= "0" && next <= "7") {
+        let octal = next;
+        while (octal.length < 3 && c.s[c.i] >= "0" && c.s[c.i] <= "7") octal += c.s[c.i++];
+        out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+      } else if (next === "\r") {
+        if (c.s[c.i] === "\n") c.i++;
+      } else if (next !== "\n") {
+        out += next;
+      }
+    } else if (ch === "(") {
+      depth++;
+      out += ch;
+    } else if (ch === ")") {
+      if (--depth === 0) break;
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+  return { bytes: out };
+}
+
+function readHexString(c: Cursor): PdfString {
+  const end = c.s.indexOf(">", c.i);
+  const hex = c.s.slice(c.i + 1, end === -1 ? c.s.length : end).replace(/[^0-9a-fA-F]/g, "");
+  c.i = end === -1 ? c.s.length : end + 1;
+  let out = "";
+  for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+  return { bytes: out };
+}
+
+/**
+ * The next value, or an operator as { op }. Numbers followed by "G R" become references.
+ * Returns undefined at the end of input.
+ */
+function readToken(c: Cursor): PdfValue | { op: string } | undefined {
+  skipSpace(c);
+  if (c.i >= c.s.length) return undefined;
+  const ch = c.s[c.i];
+  if (ch === "/") return readName(c);
+  if (ch === "(") return readLiteralString(c);
+  if (ch === "<") {
+    if (c.s[c.i + 1] !== "<") return readHexString(c);
+    c.i += 2;
+    return readDict(c);
+  }
+  if (ch === "[") {
+    c.i++;
+    return readArray(c);
+  }
+  if (ch === "]" || ch === ">" || ch === ")" || ch === "{" || ch === "}") {
+    c.i++;
+    return { op: ch };
+  }
+  const word = readWord(c);
+  if (word === "") {
+    c.i++;
+    return { op: ch };
+  }
+  if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(word)) {
+    const n = parseFloat(word);
+    // "12 0 R" is a reference
+    if (/^\d+$/.test(word)) {
+      const save = c.i;
+      const m = /^\s+(\d+)\s+R(?![^\s<>\[\]()\/%])/.exec(c.s.slice(c.i, c.i + 32));
+      if (m) {
+        c.i += m[0].length;
+        return { ref: n };
+      }
+      c.i = save;
+    }
+    return n;
+  }
+  if (word === "true") return true;
+  if (word === "false") return false;
+  if (word === "null") return null;
+  return { op: word };
+}
+
+const isOp = (t: unknown): t is { op: string } => typeof t === "object" && t !== null && "op" in t;
+
+function readArray(c: Cursor): PdfValue[] {
+  const items: PdfValue[] = [];
+  for (;;) {
+    const t = readToken(c);
+    if (t === undefined || (isOp(t) && t.op === "]")) return items;
+    if (!isOp(t)) items.push(t);
+  }
+}
+
+function readDict(c: Cursor): PdfDict {
+  const dict: Record<string, PdfValue> = {};
+  for (;;) {
+    skipSpace(c);
+    if (c.i >= c.s.length) break;
+    if (c.s.startsWith(">>", c.i)) {
+      c.i += 2;
+      break;
+    }
+    const key = readToken(c);
+    if (!isName(key)) continue;
+    const value = readToken(c);
+    if (value === undefined) break;
+    if (!isOp(value)) dict[key.name] = value;
+  }
+  return { dict };
+}
+
+function readValue(c: Cursor): PdfValue {
+  const t = readToken(c);
+  return t === undefined || isOp(t) ? null : t;
+}
+
+// --- Document structure ---
+
+interface PdfFile {
+  raw: string;
+  bytes: Buffer;
+  objects: Map<number, PdfObject>;
+}
+
+/** Every "N G obj" in the file, in order, so later revisions replace earlier ones. */
+function scanObjects(raw: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(raw))) {
+    const c = { s: raw, i: header.lastIndex };
+    let value: PdfValue;
+    try {
+      value = readValue(c);
+    } catch {
+      continue;
+    }
+    const object: PdfObject = { value };
+    skipSpace(c);
+    if (raw.startsWith("stream", c.i)) {
+      c.i += 6;
+      if (raw[c.i] === "\r") c.i++;
+      if (raw[c.i] === "\n") c.i++;
+      object.streamStart = c.i;
+      // Skip the stream data so bytes inside it aren't taken for objects
+      const end = raw.indexOf("endstream", c.i);
+      header.lastIndex = end === -1 ? raw.length : end;
+    }
+    objects.set(parseInt(match[1]), object);
+  }
+  return objects;
+}
+
+function resolve(file: PdfFile, value: PdfValue | undefined, seen = 0): PdfValue | undefined {
+  if (!isRef(value)) return value;
+  if (seen > 32) return undefined;
+  return resolve(file, file.objects.get(value.ref)?.value, seen + 1);
+}
+
+function get(file: PdfFile, dict: PdfValue | undefined, key: string): PdfValue | undefined {
+  const d = resolve(file, dict);
+  return isDict(d) ? resolve(file, d.dict[key]) : undefined;
+}
+
+function getNumber(file: PdfFile, dict: PdfValue | undefined, key: string): number | undefined {
+  const v = get(file, dict, key);
+  return typeof v === "number" ? v : undefined;
+}
+
+function getName(file: PdfFile, dict: PdfValue | undefined, key: string): string | undefined {
+  const v = get(file, dict, key);
+  return isName(v) ? v.name : undefined;
+}
+
+function getArray(file: PdfFile, dict: PdfValue | undefined, key: string): PdfValue[] {
+  const v = get(file, dict, key);
+  return Array.isArray(v) ? v : v === undefined || v === null ? [] : [v];
+}
+
+function asciiHexDecode(data: Buffer): Buffer {
+  const hex = data.toString("latin1").replace(/>.*$/s, "").replace(/[^0-9a-fA-F]/g, "");
+  return Buffer.from(hex.length % 2 ? hex + "0" : hex, "hex");
+}
+
+function ascii85Decode(data: Buffer): Buffer {
+  const text = data.toString("latin1").replace(/^<~/, "").replace(/~>.*$/s, "").replace(/\s+/g, "");
+  const out: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    const n = group.reduce((acc, d) => acc * 85 + d, 0);
+    for (let i = 0; i < count - 1; i++) out.push((n >>> (24 - 8 * i)) & 0xff);
+    group = [];
+  };
+  for (const ch of text) {
+    if (ch === "z" && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(ch.charCodeAt(0) - 33);
+    if (group.length === 5) flush(5);
+  }
+  if (group.length) flush(group.length);
+  return Buffer.from(out);
+}
+
+/** A stream object's data with its filters undone. Throws on filters we can't read (images, mostly). */
+function streamData(file: PdfFile, object: PdfObject): Buffer {
+  if (object.streamStart === undefined) throw new Error("Not a stream");
+  const start = object.streamStart;
+  const length = getNumber(file, object.value, "Length");
+  let end = length !== undefined ? start + length : -1;
+  // A wrong /Length is common enough; trust "endstream" then
+  if (end < start || end > file.bytes.length || !/^\s*endstream/.test(file.raw.slice(end, end + 16))) {
+    end = file.raw.indexOf("endstream", start);
+    if (end === -1) end = file.bytes.length;
+  }
+  let data = file.bytes.subarray(start, end);
+  for (const filter of getArray(file, object.value, "Filter")) {
+    const name = isName(filter) ? filter.name : "";
+    if (name === "FlateDecode" || name === "Fl") {
+      // Z_SYNC_FLUSH lets truncated streams give what they have instead of failing
+      data = inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+    } else if (name === "ASCIIHexDecode" || name === "AHx") {
+      data = asciiHexDecode(data);
+    } else if (name === "ASCII85Decode" || name === "A85") {
+      data = ascii85Decode(data);
+    } else {
+      throw new Error(`Unsupported stream filter ${name}`);
+    }
+  }
+  return data;
+}
+
+/** Objects packed into object streams (PDF 1.5+). Objects found directly in the file win. */
+function unpackObjectStreams(file: PdfFile): void {
+  for (const object of [...file.objects.values()]) {
+    if (getName(file, object.value, "Type") !== "ObjStm") continue;
+    let text: string;
+    try {
+      text = streamData(file, object).toString("latin1");
+    } catch {
+      continue;
+    }
+    const count = getNumber(file, object.value, "N") ?? 0;
+    const first = getNumber(file, object.value, "First") ?? 0;
+    const offsets = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const num = offsets[2 * i];
+      if (!Number.isFinite(num) || file.objects.has(num)) continue;
+      try {
+        file.objects.set(num, { value: readValue({ s: text, i: first + offsets[2 * i + 1] }) });
+      } catch {
+        // Skip an unreadable object
+      }
+    }
+  }
+}
+
+/** The trailer dictionary: the last classic trailer, else the last cross-reference stream's dictionary. */
+function trailer(file: PdfFile): PdfValue | undefined {
+  const at = file.raw.lastIndexOf("trailer");
+  if (at !== -1) {
+    const value = readValue({ s: file.raw, i: at + 7 });
+    if (isDict(value)) return value;
+  }
+  let found: PdfValue | undefined;
+  for (const object of file.objects.values()) {
+    if (getName(file, object.value, "Type") === "XRef") found = object.value;
+  }
+  return found;
+}
+
+// --- Fonts ---
+
+// Windows-1252 bytes 0x80-0x9F; the rest of WinAnsiEncoding is Latin-1
+const WIN_ANSI_HIGH =
+  "€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD" +
+  "\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ";
+
+// Glyph names seen in /Differences arrays beyond single letters and uniXXXX
+const GLYPHS: Record<string, string> = {
+  space: " ", exclam: "!", quotedbl: '"', numbersign: "#", dollar: "$", percent: "%", ampersand: "&",
+  quotesingle: "'", quoteright: "’", quoteleft: "‘", parenleft: "(", parenright: ")", asterisk: "*",
+  plus: "+", comma: ",", hyphen: "-", minus: "−", period: ".", slash: "/", colon: ":", semicolon: ";",
+  less: "<", equal: "=", greater: ">", question: "?", at: "@", bracketleft: "[", backslash: "\\",
+  bracketright: "]", asciicircum: "^", underscore: "_", grave: "`", braceleft: "{", bar: "|", braceright: "}",
+  asciitilde: "~", zero: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7",
+  eight: "8", nine: "9", quotedblleft: "“", quotedblright: "”", quotesinglbase: "‚",
+  quotedblbase: "„", endash: "–", emdash: "—", bullet: "•", ellipsis: "…",
+  dagger: "†", daggerdbl: "‡", section: "§", paragraph: "¶", copyright: "©",
+  registered: "®", trademark: "™", degree: "°", multiply: "×", divide: "÷",
+  plusminus: "±", fi: "fi", fl: "fl", ff: "ff", ffi: "ffi", ffl: "ffl", dotlessi: "ı",
+  germandbls: "ß", ae: "æ", AE: "Æ", oe: "œ", OE: "Œ", oslash: "ø",
+  Oslash: "Ø", eacute: "é", egrave: "è", aacute: "á", agrave: "à", adieresis: "ä",
+  odieresis: "ö", udieresis: "ü", Adieresis: "Ä", Odieresis: "Ö", Udieresis: "Ü",
+  ccedilla: "ç", ntilde: "ñ", euro: "€", sterling: "£", yen: "¥", cent: "¢",
+  periodcentered: "·", guillemotleft: "«", guillemotright: "»", nbspace: "\u00A0", mu: "µ",
+};
+
+function glyphText(name: string): string | undefined {
+  if (GLYPHS[name]) return GLYPHS[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = name.match(/^uni([0-9A-Fa-f]{4})+$/) && name.slice(3).match(/.{4}/g);
+  if (uni) return uni.map((h) => String.fromCharCode(parseInt(h, 16))).join("");
+  const u = name.match(/^u([0-9A-Fa-f]{4,6})$/);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+  const base = name.split(/[._]/)[0];
+  return base !== name && base ? glyphText(base) : undefined;
+}
+
+function utf16be(bytes: string): string {
+  let out = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return out;
+}
+
+function bytesToNumber(bytes: string): number {
+  let n = 0;
+  for (const ch of bytes) n = n * 256 + ch.charCodeAt(0);
+  return n;
+}
+
+interface CMap {
+  map: Map<number, string>;
+  /** Bytes per character code, from the codespace ranges. */
+  codeBytes?: number;
+}
+
+/** A ToUnicode CMap: bfchar and bfrange entries mapping codes to text. */
+function parseCMap(text: string): CMap {
+  const map = new Map<number, string>();
+  const hex = (s: string) => readHexString({ s, i: 0 }).bytes;
+  let codeBytes: number | undefined;
+  for (const block of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    const first = block[1].match(/<([0-9a-fA-F]+)>/);
+    if (first) codeBytes = Math.ceil(first[1].length / 2);
+  }
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(m[1], 16), utf16be(hex(`<${m[2]}>`)));
+    }
+  }
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const c = { s: block[1], i: 0 };
+    for (;;) {
+      const lo = readToken(c);
+      const hi = readToken(c);
+      const dst = readToken(c);
+      if (!isString(lo) || !isString(hi) || dst === undefined) break;
+      const from = bytesToNumber(lo.bytes);
+      const to = bytesToNumber(hi.bytes);
+      if (to - from > 0xffff) continue;
+      if (Array.isArray(dst)) {
+        dst.forEach((d, k) => isString(d) && map.set(from + k, utf16be(d.bytes)));
+      } else if (isString(dst)) {
+        // The last byte counts up through the range
+        const base = utf16be(dst.bytes);
+        for (let code = from; code <= to; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - from));
+        }
+      }
+    }
+  }
+  return { map, codeBytes };
+}
+
+interface Font {
+  /** Bytes per character code: 1 for simple fonts, usually 2 for composite ones. */
+  codeBytes: number;
+  /** Text of a character code (undefined when the font can't tell), and its advance width in thousandths of the font size. */
+  decode(code: number): string | undefined;
+  width(code: number): number;
+}
+
+function loadFont(file: PdfFile, ref: PdfValue | undefined): Font {
+  const font = resolve(file, ref);
+  const subtype = getName(file, font, "Subtype");
+  const composite = subtype === "Type0";
+
+  let toUnicode: CMap | null = null;
+  const cmapRef = isDict(font) ? font.dict.ToUnicode : undefined;
+  const cmapObject = isRef(cmapRef) ? file.objects.get(cmapRef.ref) : undefined;
+  if (cmapObject?.streamStart !== undefined) {
+    try {
+      toUnicode = parseCMap(streamData(file, cmapObject).toString("latin1"));
+    } catch {
+      // Fall back to the encoding
+    }
+  }
+
+  // Simple fonts: a base encoding with /Differences on top
+  const differences = new Map<number, string>();
+  const encoding = get(file, font, "Encoding");
+  // [code /name /name code /name ...]: names take consecutive codes
+  let next = 0;
+  for (const item of isDict(encoding) ? getArray(file, encoding, "Differences") : []) {
+    if (typeof item === "number") {
+      next = item;
+    } else if (isName(item)) {
+      const text = glyphText(item.name);
+      if (text !== undefined) differences.set(next, text);
+      next++;
+    }
+  }
+
+  // Widths: /Widths from /FirstChar for simple fonts, /W and /DW on the descendant for composite ones
+  const widths = new Map<number, number>();
+  let defaultWidth = 500;
+  if (composite) {
+    const descendant = resolve(file, getArray(file, font, "DescendantFonts")[0]);
+    defaultWidth = getNumber(file, descendant, "DW") ?? 1000;
+    const w = getArray(file, descendant, "W").map((v) => resolve(file, v));
+    for (let i = 0; i < w.length; ) {
+      const first = w[i];
+      const next = w[i + 1];
+      if (typeof first !== "number") break;
+      if (Array.isArray(next)) {
+        next.forEach((v, k) => typeof v === "number" && widths.set(first + k, v));
+        i += 2;
+      } else if (typeof next === "number" && typeof w[i + 2] === "number") {
+        for (let code = first; code <= next && code - first < 0xffff; code++) widths.set(code, w[i + 2] as number);
+        i += 3;
+      } else {
+        break;
+      }
+    }
+  } else {
+    const firstChar = getNumber(file, font, "FirstChar") ?? 0;
+    getArray(file, font, "Widths").forEach((v, k) => {
+      const width = resolve(file, v);
+      if (typeof width === "number") widths.set(firstChar + k, width);
+    });
+  }
+
+  const codeBytes = composite ? (toUnicode?.codeBytes ?? 2) : 1;
+  return {
+    codeBytes,
+    decode(code) {
+      const mapped = toUnicode?.map.get(code);
+      if (mapped !== undefined) return mapped;
+      // Composite fonts without a usable map have no way back to text
+      if (composite) return undefined;
+      const different = differences.get(code);
+      if (different !== undefined) return different;
+      if (code >= 0x80 && code <= 0x9f) return WIN_ANSI_HIGH[code - 0x80];
+      return String.fromCharCode(code);
+    },
+    width: (code) => widths.get(code) ?? defaultWidth,
+  };
+}
+
+// --- Content streams ---
+
+type Matrix = [number, number, number, number, number, number];
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function translate(m: Matrix, tx: number, ty: number): Matrix {
+  return [m[0], m[1], m[2], m[3], tx * m[0] + ty * m[2] + m[4], tx * m[1] + ty * m[3] + m[5]];
+}
+
+/** A run of text as placed on the page: start, end and size in page space. */
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  endX: number;
+  size: number;
+}
+
+/** Glyphs shown, and how many of them had no text. */
+interface GlyphCount {
+  glyphs: number;
+  unmapped: number;
+}
+
+interface TextState {
+  font?: Font;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+  leading: number;
+}
+
+/** Read the text runs of a content stream, following form XObjects. */
+function contentRuns(
+  file: PdfFile,
+  content: string,
+  resources: PdfValue | undefined,
+  ctm: Matrix,
+  runs: TextRun[],
+  count: GlyphCount,
+  depth = 0,
+): void {
+  const fonts = new Map<string, Font>();
+  const fontFor = (name: string): Font | undefined => {
+    if (!fonts.has(name)) {
+      const ref = get(file, get(file, resources, "Font"), name);
+      if (ref === undefined) return undefined;
+      fonts.set(name, loadFont(file, ref));
+    }
+    return fonts.get(name);
+  };
+
+  const stack: { ctm: Matrix; state: TextState }[] = [];
+  let state: TextState = { fontSize: 0, charSpacing: 0, wordSpacing: 0, scale: 1, leading: 0 };
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+
+  const show = (bytes: string) => {
+    const font = state.font;
+    if (!font) return;
+    const start = multiply(tm, ctm);
+    const size = Math.hypot(start[2], start[3]) * state.fontSize || state.fontSize;
+    let text = "";
+    let advance = 0;
+    for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+      const code = bytesToNumber(bytes.slice(i, i + font.codeBytes));
+      const glyph = font.decode(code);
+      count.glyphs++;
+      if (glyph === undefined) count.unmapped++;
+      else text += glyph;
+      const spacing = state.charSpacing + (font.codeBytes === 1 && code === 32 ? state.wordSpacing : 0);
+      advance += ((font.width(code) / 1000) * state.fontSize + spacing) * state.scale;
+    }
+    tm = translate(tm, advance, 0);
+    const end = multiply(tm, ctm);
+    if (text) runs.push({ text, x: start[4], y: start[5], endX: end[4], size: Math.abs(size) });
+  };
+  const nextLine = () => {
+    tlm = translate(tlm, 0, -state.leading);
+    tm = tlm;
+  };
+
+  const c = { s: content, i: 0 };
+  let operands: PdfValue[] = [];
+  for (;;) {
+    const t = readToken(c);
+    if (t === undefined) break;
+    if (!isOp(t)) {
+      operands.push(t);
+      continue;
+    }
+    const n = (k: number) => (typeof operands[k] === "number" ? (operands[k] as number) : 0);
+    switch (t.op) {
+      case "q":
+        stack.push({ ctm, state: { ...state } });
+        break;
+      case "Q": {
+        const saved = stack.pop();
+        if (saved) ({ ctm, state } = saved);
+        break;
+      }
+      case "cm":
+        ctm = multiply([n(0), n(1), n(2), n(3), n(4), n(5)], ctm);
+        break;
+      case "BT":
+        tm = tlm = IDENTITY;
+        break;
+      case "Tf": {
+        const name = operands[0];
+        state.font = isName(name) ? fontFor(name.name) : undefined;
+        state.fontSize = n(1);
+        break;
+      }
+      case "Tc":
+        state.charSpacing = n(0);
+        break;
+      case "Tw":
+        state.wordSpacing = n(0);
+        break;
+      case "Tz":
+        state.scale = n(0) / 100;
+        break;
+      case "TL":
+        state.leading = n(0);
+        break;
+      case "Td":
+        tlm = translate(tlm, n(0), n(1));
+        tm = tlm;
+        break;
+      case "TD":
+        state.leading = -n(1);
+        tlm = translate(tlm, n(0), n(1));
+        tm = tlm;
+        break;
+      case "Tm":
+        tlm = tm = [n(0), n(1), n(2), n(3), n(4), n(5)];
+        break;
+      case "T*":
+        nextLine();
+        break;
+      case "Tj":
+        if (isString(operands[0])) show(operands[0].bytes);
+        break;
+      case "'":
+        nextLine();
+        if (isString(operands[0])) show(operands[0].bytes);
+        break;
+      case '"':
+        state.wordSpacing = n(0);
+        state.charSpacing = n(1);
+        nextLine();
+        if (isString(operands[2])) show(operands[2].bytes);
+        break;
+      case "TJ":
+        for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (isString(item)) show(item.bytes);
+          else if (typeof item === "number") tm = translate(tm, (-item / 1000) * state.fontSize * state.scale, 0);
+        }
+        break;
+      case "Do": {
+        const name = operands[0];
+        if (!isName(name) || depth >= MAX_FORM_DEPTH) break;
+        const ref = (resolve(file, get(file, resources, "XObject")) as PdfDict | undefined)?.dict?.[name.name];
+        const object = isRef(ref) ? file.objects.get(ref.ref) : undefined;
+        if (!object || getName(file, object.value, "Subtype") !== "Form") break;
+        try {
+          const matrix = getArray(file, object.value, "Matrix");
+          const form = matrix.length === 6 ? (matrix.map((v) => (typeof v === "number" ? v : 0)) as Matrix) : IDENTITY;
+          const formResources = get(file, object.value, "Resources") ?? resources;
+          contentRuns(file, streamData(file, object).toString("latin1"), formResources, multiply(form, ctm), runs, count, depth + 1);
+        } catch {
+          // An unreadable form is skipped like an image
+        }
+        break;
+      }
+      case "BI": {
+        // Inline image: its data runs to "EI" and isn't tokenizable
+        const end = content.slice(c.i).search(/\sEI(?=\s|$)/);
+        c.i = end === -1 ? content.length : c.i + end + 3;
+        break;
+      }
+    }
+    operands = [];
+  }
+}
+
+/** Runs in stream order joined into lines and paragraphs; words split across lines by a hyphen are rejoined. */
+function runsToText(runs: TextRun[]): string {
+  const paragraphs: string[] = [];
+  let paragraph: string[] = [];
+  let line = "";
+  let prev: TextRun | null = null;
+  let lineY = 0;
+  let lineSize = 0;
+
+  const endLine = () => {
+    const text = line.replace(/\s+/g, " ").trim();
+    if (text) paragraph.push(text);
+    line = "";
+  };
+  const endParagraph = () => {
+    endLine();
+    if (paragraph.length) {
+      paragraphs.push(
+        paragraph.reduce((acc, next) => (/[a-z]-$/.test(acc) && /^[a-z]/.test(next) ? acc.slice(0, -1) + next : `${acc} ${next}`)),
+      );
+    }
+    paragraph = [];
+  };
+
+  for (const run of runs) {
+    const size = run.size || lineSize || 10;
+    if (!prev) {
+      line = run.text;
+      lineY = run.y;
+      lineSize = size;
+    } else if (Math.abs(run.y - lineY) > Math.min(size, lineSize) * 0.5) {
+      const gap = lineY - run.y;
+      // A jump up (next column) or a gap of well over a line starts a paragraph
+      if (gap < 0 || gap > Math.max(size, lineSize) * 1.75) endParagraph();
+      else endLine();
+      line = run.text;
+      lineY = run.y;
+      lineSize = size;
+    } else {
+      const spaced = /\s$/.test(line) || /^\s/.test(run.text);
+      if (!spaced && run.x - prev.endX > size * 0.15) line += " ";
+      line += run.text;
+    }
+    prev = run;
+  }
+  endParagraph();
+  return paragraphs
+    .join("\n\n")
+    .replace(/ﬀ/g, "ff")
+    .replace(/ﬁ/g, "fi")
+    .replace(/ﬂ/g, "fl")
+    .replace(/ﬃ/g, "ffi")
+    .replace(/ﬄ/g, "ffl")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFD]/g, "");
+}
+
+/** The page objects in order, with the resources each inherits. */
+function pageTree(file: PdfFile, root: PdfValue | undefined): { page: PdfValue; resources: PdfValue | undefined }[] {
+  const pages: { page: PdfValue; resources: PdfValue | undefined }[] = [];
+  const seen = new Set<PdfValue>();
+  const walk = (node: PdfValue | undefined, resources: PdfValue | undefined) => {
+    const resolved = resolve(file, node);
+    if (!isDict(resolved) || seen.has(resolved)) return;
+    seen.add(resolved);
+    const own = get(file, resolved, "Resources") ?? resources;
+    const kids = getArray(file, resolved, "Kids");
+    if (getName(file, resolved, "Type") === "Page" || (kids.length === 0 && resolved.dict.Contents)) {
+      pages.push({ page: resolved, resources: own });
+    } else {
+      for (const kid of kids) walk(kid, own);
+    }
+  };
+  walk(root, undefined);
+  return pages;
+}
+
+/** A PDF text string: UTF-16BE with a byte order mark, else (roughly) Latin-1. */
+function textString(value: PdfValue | undefined): string | undefined {
+  if (!isString(value)) return undefined;
+  const bytes = value.bytes;
+  if (bytes.startsWith("\xFE\xFF")) return utf16be(bytes.slice(2));
+  if (bytes.startsWith("\xEF\xBB\xBF")) return Buffer.from(bytes.slice(3), "latin1").toString("utf8");
+  return bytes;
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(parseInt(n)))
+    .replace(/&amp;/g, "&");
+}
+
+/** The Info dictionary's /Title, else the XMP dc:title; titles that are just file names don't count. */
+function documentTitle(file: PdfFile, catalog: PdfValue | undefined, info: PdfValue | undefined): string | undefined {
+  const candidates = [textString(get(file, info, "Title"))];
+  const metadataRef = isDict(resolve(file, catalog)) ? (resolve(file, catalog) as PdfDict).dict.Metadata : undefined;
+  const metadata = isRef(metadataRef) ? file.objects.get(metadataRef.ref) : undefined;
+  if (metadata?.streamStart !== undefined) {
+    try {
+      const xmp = streamData(file, metadata).toString("utf8");
+      const title = xmp.match(/<dc:title>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/)?.[1];
+      if (title) candidates.push(decodeXml(title));
+    } catch {
+      // No usable XMP
+    }
+  }
+  for (const candidate of candidates) {
+    const title = candidate?.replace(/^Microsoft (?:Word|PowerPoint) - /, "").replace(/\s+/g, " ").trim();
+    if (title && !/^untitled$/i.test(title) && !/\.(?:docx?|pptx?|pdf|tex|dvi|indd|odt)$/i.test(title)) return title;
+  }
+  return undefined;
+}
+
+export function isPdf(bytes: Uint8Array): boolean {
+  return Buffer.from(bytes.subarray(0, 1024)).toString("latin1").includes("%PDF-");
+}
+
+/** Parse a PDF file into its pages' text and its title. */
+export function parsePdf(input: Uint8Array): PdfDocument {
+  const bytes = Buffer.from(input);
+  const raw = bytes.toString("latin1");
+  if (!isPdf(bytes)) throw new Error("Not a PDF file");
+  const file: PdfFile = { raw, bytes, objects: scanObjects(raw) };
+  unpackObjectStreams(file);
+
+  const tail = trailer(file);
+  if (get(file, tail, "Encrypt") !== undefined) throw new Error("Encrypted PDFs aren't supported");
+  let catalog = get(file, tail, "Root");
+  if (!isDict(catalog)) {
+    catalog = [...file.objects.values()].find((o) => getName(file, o.value, "Type") === "Catalog")?.value;
+  }
+  let pages = pageTree(file, get(file, catalog, "Pages"));
+  if (pages.length === 0) {
+    // No usable page tree (a damaged file): take the page objects in file order
+    pages = [...file.objects.entries()]
+      .sort(([a], [b]) => a - b)
+      .filter(([, o]) => getName(file, o.value, "Type") === "Page")
+      .map(([, o]) => ({ page: o.value, resources: get(file, o.value, "Resources") }));
+  }
+  if (pages.length === 0) throw new Error("No pages found in this PDF");
+
+  const total: GlyphCount = { glyphs: 0, unmapped: 0 };
+  const unreadable: number[] = [];
+  const texts = pages.map(({ page, resources }, i) => {
+    const contents = isDict(page) ? page.dict.Contents : undefined;
+    const list = resolve(file, contents);
+    const refs = Array.isArray(list) ? list : [contents];
+    const streams: string[] = [];
+    for (const ref of refs) {
+      const object = isRef(ref) ? file.objects.get(ref.ref) : undefined;
+      if (!object) continue;
+      try {
+        streams.push(streamData(file, object).toString("latin1"));
+      } catch {
+        // Skip a stream we can't decode
+      }
+    }
+    const runs: TextRun[] = [];
+    const count: GlyphCount = { glyphs: 0, unmapped: 0 };
+    contentRuns(file, streams.join("\n"), resources, IDENTITY, runs, count);
+    total.glyphs += count.glyphs;
+    total.unmapped += count.unmapped;
+    if (count.unmapped > count.glyphs * MAX_UNMAPPED) unreadable.push(i + 1);
+    return runsToText(runs);
+  });
+
+  // Fonts without a Unicode mapping leave fragments (numbers, Latin words) that read as nonsense
+  if (total.unmapped > total.glyphs * MAX_UNMAPPED) {
+    throw new Error("Most of this PDF's text uses fonts without a Unicode mapping (often CJK fonts), so it can't be extracted");
+  }
+  if (unreadable.length) {
+    const which = unreadable.length === 1 ? `page ${unreadable[0]}` : `pages ${unreadable.join(", ")}`;
+    console.error(`  Warning: most of the text on ${which} uses fonts without a Unicode mapping and was lost`);
+  }
+
+  return { title: documentTitle(file, catalog, get(file, tail, "Info")), pages: texts };
+}
+
+/**
+ * The PDF behind a URL that names one: a path ending in .pdf, or the file shown by qutebrowser's
+ * pdf.js viewer. Null for anything else; tabs showing a PDF under another URL are caught by
+ * their content type instead.
+ */
+export function pdfUrl(url: string): string | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return null;
+  }
+  if (u.protocol === "qute:" && u.hostname === "pdfjs") return u.searchParams.get("source") || null;
+  if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+  return /\.pdf$/i.test(u.pathname) ? url : null;
+}
+
+/** Download and parse a PDF. */
+export async function fetchPdf(url: string): Promise<PdfDocument> {
+  const bytes = await withRetry(`Fetching ${url}`, async () => {
+    const resp = await fetch(url, { headers: { "User-Agent": UA, Accept: "application/pdf,*/*" } });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    return new Uint8Array(await resp.arrayBuffer());
+  });
+  if (!isPdf(bytes)) throw new Error(`Not a PDF: ${url}`);
+  return parsePdf(bytes);
+}
+
+/** Pages as stored: each starts with a "[p. N]" line, pages without text are left out. */
+export function formatPdfPages(pages: string[]): string {
+  return pages
+    .map((text, i) => (text.trim() ? `[p. ${i + 1}]\n\n${text.trim()}` : ""))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Read stored PDF text back into pages. */
+export function parsePdfPages(content: string): { page: number; text: string }[] {
+  const pages: { page: number; text: string }[] = [];
+  for (const block of content.split(/\n(?=\[p\. \d+\]\n)/)) {
+    const [first, ...rest] = block.split("\n");
+    const match = first.trim().match(PAGE_MARKER);
+    if (match) pages.push({ page: parseInt(match[1]), text: rest.join("\n").trim() });
+    else if (block.trim()) pages.push({ page: pages.at(-1)?.page ?? 1, text: block.trim() });
+  }
+  return pages;
+}
+
+/** The PDF text without its page markers, e.g. to check quotes against. */
+export function stripPageMarkers(content: string): string {
+  return content
+    .split("\n")
+    .filter((line) => !PAGE_MARKER.test(line.trim()))
+    .join("\n");
+}
@@ -0,0 +1,24 @@
+import type { Usage } from "./usage";
+
+/**
+ * Progress of a summarize run, printed one per line by `els --json-stream` (NDJSON).
+ * text_delta carries rendered markdown: append `text`, or with `replace` start over from it.
+ */
+export type ProgressEvent =
+  | { event: "extracting"; url: string; type: "web" | "youtube" | "subtitles" | "document" | "pdf" | "site" | "playlist" }
+  /** One video of a playlist or channel is summarized (or was already), or failed; index is 1-based. */
+  | { event: "video_done"; index: number; total: number; url: string; slug?: string; cached?: boolean; error?: string }
+  /** A map-reduce partial finished or was loaded from a checkpoint; index is 1-based. */
+  | { event: "chunk_done"; index: number; total: number; resumed?: boolean }
+  | { event: "text_delta"; text: string; replace?: boolean }
+  | { event: "saved"; slug: string; title: string; htmlPath: string; cached: boolean; usage?: Usage }
+  | { event: "error"; error: string };
+
+export type OnProgress = (event: ProgressEvent) => void;
+
+/** Route a run's streamed summary text to text_delta events. */
+export function textDeltas(onProgress?: OnProgress) {
+  if (!onProgress) return undefined;
+  return (text: string, replace?: boolean) =>
+    onProgress({ event: "text_delta", text, ...(replace ? { replace } : {}) });
+}
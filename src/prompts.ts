@@ -0,0 +1,503 @@
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { HOME } from "./paths";
+import { languageName } from "./lang";
+
+// User prompt templates: prompts/<style>.md for every content type,
+// or prompts/<style>.<type>.md to target one (web, youtube, subtitles, document, pdf, site, comparison,
+// playlist, or a *-merge variant).
+const PROMPTS_DIR = join(HOME, "prompts");
+
+export type SummaryType =
+  | "web"
+  | "youtube"
+  | "subtitles"
+  | "document"
+  | "pdf"
+  | "site"
+  | "web-merge"
+  | "youtube-merge"
+  | "subtitles-merge"
+  | "document-merge"
+  | "pdf-merge"
+  | "site-merge"
+  | "comparison"
+  | "playlist";
+
+export const DEFAULT_STYLE = "default";
+
+const WEB_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given web article clearly and thoroughly.
+
+Output format:
+- Start with a 1-2 sentence TL;DR
+- Then 3-7 key points as bullet points
+- End with a "Notable quotes" section if there are striking quotes (max 3)
+
+Guidelines:
+- Be concise but don't omit important nuance
+- Preserve the author's key arguments and conclusions
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const YOUTUBE_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given YouTube video transcript clearly and thoroughly.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of what this video is about
+- Then 3-7 key points as bullet points covering the main topics discussed, each ending with the timestamp where it comes up, like [12:34]
+- End with a "Notable moments" section for any particularly interesting quotes or exchanges (max 3), each with its timestamp
+
+Guidelines:
+- Transcripts are messy (auto-generated captions). Parse through the noise to find the real content.
+- Transcript lines start with [mm:ss] (or [h:mm:ss]) timestamps. Cite them exactly as written, never invent one
+- If it's an interview/conversation, note who said what when relevant
+- Be concise but don't omit important nuance
+- Write like a human. No em-dashes, no AI jargon
+- Use simple, direct language
+- Output plain markdown`;
+
+const SUBTITLES_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given transcript (from a subtitle file: a talk, meeting, lecture or film) clearly and thoroughly.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of what the recording is about
+- Then 3-7 key points as bullet points covering the main topics discussed, each ending with the timestamp where it comes up, like [12:34]
+- End with a "Notable moments" section for any particularly interesting quotes or exchanges (max 3), each with its timestamp
+
+Guidelines:
+- Transcript lines start with [mm:ss] (or [h:mm:ss]) timestamps. Cite them exactly as written, never invent one
+- Lines may name their speaker ("Name: ..."). Note who said what when relevant
+- Be concise but don't omit important nuance
+- Write like a human. No em-dashes, no AI jargon
+- Use simple, direct language
+- Output plain markdown`;
+
+const DOCUMENT_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given document clearly and thoroughly.
+
+Output format:
+- Start with a 1-2 sentence TL;DR
+- Then 3-7 key points as bullet points
+- End with a "Notable quotes" section if there are striking quotes (max 3)
+
+Guidelines:
+- Be concise but don't omit important nuance
+- Preserve the author's key arguments and conclusions
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const PDF_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given PDF document (a paper, report or manual) clearly and thoroughly.
+
+Output format:
+- Start with a 1-2 sentence TL;DR
+- Then 3-7 key points as bullet points, each ending with the page it comes from, like (p. 4) or (pp. 4-5)
+- End with a "Notable quotes" section if there are striking quotes (max 3), each with its page
+
+Guidelines:
+- Each page starts with a [p. N] line. Cite those page numbers exactly, never invent one
+- Preserve the author's key arguments, methods and conclusions, and keep important numbers exact
+- Skip running headers, footers and reference lists
+- Be concise but don't omit important nuance
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const SITE_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given documentation site (multiple pages) clearly and thoroughly.
+
+Output format:
+- Start with a 2-3 sentence TL;DR of what this site covers overall
+- Then for each page/section, write:
+  ## <Page Title>
+  - 2-4 bullet points covering that page's key content
+- End with a "## Key Takeaways" section: 3-5 bullets that cut across all pages
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Focus on what a reader needs to know to understand this documentation
+- Skip pages with no meaningful content (e.g. landing pages, brand guidelines)
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const SITE_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of different sections of a large documentation site. Merge them into a single coherent summary.
+
+Output format:
+- Start with a 2-3 sentence TL;DR of what this site covers overall
+- Then organize the key sections logically (group related topics, remove redundancy)
+  ## <Section Title>
+  - 2-4 bullet points covering key content
+- End with a "## Key Takeaways" section: 3-5 bullets that cut across all sections
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Merge and deduplicate — don't just concatenate the partial summaries
+- Group related sections together under logical headings
+- Focus on what a reader needs to know to understand this documentation
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const WEB_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of consecutive parts of one long web article. Merge them into a single summary of the whole article.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of the whole article
+- Then 3-7 key points as bullet points, following the article's overall argument
+- End with a "Notable quotes" section if the partial summaries include striking quotes (max 3, keep them verbatim)
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Merge and deduplicate — don't just concatenate the partial summaries
+- Preserve the author's key arguments and conclusions
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const YOUTUBE_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of consecutive time windows of one long YouTube video. Merge them into a single summary of the whole video.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of what this video is about
+- Then 3-7 key points as bullet points covering the main topics, in the order they come up
+- End with a "Notable moments" section (max 3), picked from the partial summaries
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Merge and deduplicate — topics often span several windows
+- Keep the [mm:ss] timestamps the partial summaries cite, exactly as written
+- If it's an interview/conversation, note who said what when relevant
+- Write like a human. No em-dashes, no AI jargon
+- Use simple, direct language
+- Output plain markdown`;
+
+const SUBTITLES_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of consecutive time windows of one long transcript. Merge them into a single summary of the whole recording.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of what the recording is about
+- Then 3-7 key points as bullet points covering the main topics, in the order they come up
+- End with a "Notable moments" section (max 3), picked from the partial summaries
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Merge and deduplicate — topics often span several windows
+- Keep the [mm:ss] timestamps the partial summaries cite, exactly as written
+- Note who said what when relevant
+- Write like a human. No em-dashes, no AI jargon
+- Use simple, direct language
+- Output plain markdown`;
+
+const DOCUMENT_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of consecutive parts of one long document. Merge them into a single summary of the whole document.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of the whole document
+- Then 3-7 key points as bullet points, following the document's overall argument
+- End with a "Notable quotes" section if the partial summaries include striking quotes (max 3, keep them verbatim)
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Merge and deduplicate — don't just concatenate the partial summaries
+- Preserve the author's key arguments and conclusions
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const PDF_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of consecutive pages of one long PDF document. Merge them into a single summary of the whole document.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of the whole document
+- Then 3-7 key points as bullet points, following the document's overall argument
+- End with a "Notable quotes" section if the partial summaries include striking quotes (max 3, keep them verbatim)
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Merge and deduplicate — don't just concatenate the partial summaries
+- Keep the (p. N) page citations the partial summaries give, exactly as written
+- Preserve the author's key arguments and conclusions
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const COMPARISON_PROMPT = `You are a careful analyst. You are given several sources on a related topic, numbered [1], [2], and so on. Compare them.
+
+Output format:
+- Start with "**TL;DR:**" and 2-3 sentences on what the sources add up to together
+- "## Where they agree": bullet points for claims two or more sources share
+- "## Where they disagree": one bullet per point of contention, naming the question and what each side says
+- "## Unique to each source": a "### [n] <source title>" heading per source, with 1-4 bullets on claims only that source makes
+
+Guidelines:
+- Output the comparison immediately. No preamble, no "I'll do X", no thinking out loud.
+- Cite the sources behind every claim by number, like [1] or [2][3]
+- Only call it a disagreement when sources actually conflict, not when one just doesn't mention something. If they don't disagree on anything, say so in one line
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const PLAYLIST_PROMPT = `You are a concise summarization assistant. You are given summaries of the videos in a YouTube playlist or channel, numbered [1], [2], and so on. Write one summary of the whole collection.
+
+Output format:
+- Start with "**TL;DR:**" and 2-3 sentences on what the collection covers and who it's for
+- "## Themes": 3-7 bullet points on the topics and ideas that run through the videos, citing the videos behind each
+- "## Highlights": up to 5 bullets, each pointing to a video worth watching first and why
+
+Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Cite videos by number, like [3] or [1][4]. Don't cite the timestamps inside the video summaries
+- Synthesize across videos. Don't summarize them one by one
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+const DEFAULT_PROMPTS: Record<SummaryType, string> = {
+  web: WEB_SYSTEM_PROMPT,
+  youtube: YOUTUBE_SYSTEM_PROMPT,
+  subtitles: SUBTITLES_SYSTEM_PROMPT,
+  document: DOCUMENT_SYSTEM_PROMPT,
+  pdf: PDF_SYSTEM_PROMPT,
+  site: SITE_SYSTEM_PROMPT,
+  "web-merge": WEB_MERGE_PROMPT,
+  "youtube-merge": YOUTUBE_MERGE_PROMPT,
+  "subtitles-merge": SUBTITLES_MERGE_PROMPT,
+  "document-merge": DOCUMENT_MERGE_PROMPT,
+  "pdf-merge": PDF_MERGE_PROMPT,
+  "site-merge": SITE_MERGE_PROMPT,
+  comparison: COMPARISON_PROMPT,
+  playlist: PLAYLIST_PROMPT,
+};
+
+const INTROS: Record<SummaryType, string> = {
+  web: "You are a summarization assistant. Summarize the given web article.",
+  youtube:
+    "You are a summarization assistant. Summarize the given YouTube video transcript. Transcripts are messy (auto-generated captions), so parse through the noise to find the real content. Cite the transcript's [mm:ss] timestamps for the points and moments you mention.",
+  subtitles:
+    "You are a summarization assistant. Summarize the given transcript from a subtitle file. Cite the transcript's [mm:ss] timestamps for the points and moments you mention.",
+  document: "You are a summarization assistant. Summarize the given document.",
+  pdf:
+    "You are a summarization assistant. Summarize the given PDF document. Each page starts with a [p. N] line; cite the pages your points and quotes come from, like (p. 4).",
+  site: "You are a summarization assistant. Summarize the given documentation site (multiple pages).",
+  "web-merge":
+    "You are a summarization assistant. You are given partial summaries of consecutive parts of one long web article. Merge and deduplicate them into a single result for the whole article — don't just concatenate them.",
+  "youtube-merge":
+    "You are a summarization assistant. You are given partial summaries of consecutive time windows of one long YouTube video. Merge and deduplicate them into a single result for the whole video — don't just concatenate them. Keep the [mm:ss] timestamps they cite.",
+  "subtitles-merge":
+    "You are a summarization assistant. You are given partial summaries of consecutive time windows of one long transcript. Merge and deduplicate them into a single result for the whole recording — don't just concatenate them. Keep the [mm:ss] timestamps they cite.",
+  "document-merge":
+    "You are a summarization assistant. You are given partial summaries of consecutive parts of one long document. Merge and deduplicate them into a single result for the whole document — don't just concatenate them.",
+  "pdf-merge":
+    "You are a summarization assistant. You are given partial summaries of consecutive pages of one long PDF document. Merge and deduplicate them into a single result for the whole document — don't just concatenate them. Keep the (p. N) page citations they give.",
+  "site-merge":
+    "You are a summarization assistant. You are given partial summaries of different sections of a large documentation site. Merge and deduplicate them into a single coherent result — don't just concatenate them.",
+  comparison:
+    "You are an analyst. You are given several sources on a related topic, numbered [1], [2], and so on. Compare them: what they agree on, where they disagree and what only one source says, citing sources by number.",
+  playlist:
+    "You are a summarization assistant. You are given summaries of the videos in a YouTube playlist or channel, numbered [1], [2], and so on. Summarize the collection as a whole, citing videos by number.",
+};
+
+const GUIDELINES = `Guidelines:
+- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
+- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
+- Use simple, direct language
+- Output plain markdown`;
+
+/** Built-in styles besides "default". Each is an output format combined with a per-type intro. */
+const BUILTIN_STYLES: Record<string, { description: string; format: string }> = {
+  brief: {
+    description: "One-paragraph brief",
+    format: `Output format:
+- A single paragraph of 3-5 sentences covering what matters most
+- No headings, no bullet points, no quotes`,
+  },
+  technical: {
+    description: "Detailed technical notes",
+    format: `Output format:
+- Start with a 1-2 sentence TL;DR
+- Then detailed notes under ## headings (for example: concepts, APIs and commands, configuration, numbers and limits, caveats), using only the headings that apply
+- Keep code, commands, identifiers, versions and numbers exact. Use backticks or code blocks
+- Prefer completeness over brevity, but skip filler`,
+  },
+  eli5: {
+    description: "Explain like I'm five",
+    format: `Output format:
+- Explain the content to a curious 10-year-old in 2-4 short paragraphs
+- Use everyday analogies and define any unavoidable jargon in plain words
+- End with one sentence: "The big idea:" followed by the single most important takeaway`,
+  },
+  actions: {
+    description: "Action-item list",
+    format: `Output format:
+- A 1 sentence TL;DR
+- Then a "## Action items" checklist (\`- [ ] ...\`) of concrete things the reader could do based on this content, most important first
+- Then "## Open questions" for anything that needs follow-up, if there is any
+- Skip background that doesn't lead to an action`,
+  },
+};
+
+export interface ResolvedPrompt {
+  text: string;
+  /** Identifies the exact prompt, e.g. "technical/web@3fa1c2d9", so revisions can be compared. */
+  label: string;
+}
+
+async function readTemplate(name: string): Promise<string | null> {
+  const file = Bun.file(join(PROMPTS_DIR, `${name}.md`));
+  return (await file.exists()) ? (await file.text()).trim() : null;
+}
+
+/** Fill {{title}}, {{url}} and {{kind}} placeholders in a user template. */
+function fill(template: string, vars: { title: string; url: string; kind: string }): string {
+  return template.replace(/\{\{\s*(title|url|kind)\s*\}\}/g, (_, key: keyof typeof vars) => vars[key]);
+}
+
+const KINDS: Record<SummaryType, string> = {
+  web: "web article",
+  youtube: "YouTube video transcript",
+  subtitles: "transcript",
+  document: "document",
+  pdf: "PDF document",
+  site: "documentation site",
+  "web-merge": "set of partial article summaries",
+  "youtube-merge": "set of partial video summaries",
+  "subtitles-merge": "set of partial transcript summaries",
+  "document-merge": "set of partial document summaries",
+  "pdf-merge": "set of partial PDF summaries",
+  "site-merge": "set of partial documentation summaries",
+  comparison: "set of sources to compare",
+  playlist: "set of video summaries from a playlist or channel",
+};
+
+/**
+ * Resolve the system prompt for a style and content type. User templates in prompts/ win over
+ * built-ins; a style without a *-merge variant reuses its base type (or generic) template with a merge intro.
+ */
+export async function resolvePrompt(
+  type: SummaryType,
+  style: string = DEFAULT_STYLE,
+  vars: { title: string; url: string } = { title: "", url: "" },
+): Promise<ResolvedPrompt> {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(style)) throw new Error(`Invalid style name: ${style}`);
+
+  let text: string | null = await readTemplate(`${style}.${type}`);
+  if (text === null && type.endsWith("-merge")) {
+    const baseType = type.replace(/-merge$/, "");
+    const base = (await readTemplate(`${style}.${baseType}`)) ?? (await readTemplate(style));
+    if (base !== null) text = `${INTROS[type]} Use the format below.\n\n${base}`;
+  }
+  if (text === null) text = await readTemplate(style);
+  if (text === null) {
+    if (style === DEFAULT_STYLE) {
+      text = DEFAULT_PROMPTS[type];
+    } else if (BUILTIN_STYLES[style]) {
+      text = `${INTROS[type]}\n\n${BUILTIN_STYLES[style].format}\n\n${GUIDELINES}`;
+    } else {
+      const names = (await listStyles()).map((s) => s.name).join(", ");
+      throw new Error(`Unknown style: ${style} (available: ${names})`);
+    }
+  }
+
+  // Hash the template before placeholders are filled so the label is stable across articles
+  const hash = createHash("sha256").update(text).digest("hex");
+  return {
+    text: fill(text, { ...vars, kind: KINDS[type] }),
+    label: `${style}/${type}@${hash.slice(0, 8)}`,
+  };
+}
+
+export interface StyleInfo {
+  name: string;
+  description: string;
+  source: "built-in" | "user" | "built-in, overridden";
+}
+
+/** Built-in styles plus any defined by template files in prompts/. */
+export async function listStyles(): Promise<StyleInfo[]> {
+  const styles = new Map<string, StyleInfo>();
+  styles.set(DEFAULT_STYLE, { name: DEFAULT_STYLE, description: "TL;DR, key points and quotes", source: "built-in" });
+  for (const [name, style] of Object.entries(BUILTIN_STYLES)) {
+    styles.set(name, { name, description: style.description, source: "built-in" });
+  }
+
+  let files: string[] = [];
+  try {
+    files = (await readdir(PROMPTS_DIR)).filter((f) => f.endsWith(".md"));
+  } catch {
+    // No prompts dir yet
+  }
+  for (const file of files) {
+    const name = file.replace(/\.md$/, "").replace(/\.(web|youtube|subtitles|document|pdf|site|comparison|playlist)(-merge)?$/, "");
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) continue;
+    const existing = styles.get(name);
+    if (existing) {
+      if (existing.source === "built-in") existing.source = "built-in, overridden";
+    } else {
+      styles.set(name, { name, description: `prompts/${file}`, source: "user" });
+    }
+  }
+  return [...styles.values()];
+}
+
+/** Appended to the system prompt when the summary language is forced (--lang / ELS_LANG). */
+export function languageInstruction(lang: string): string {
+  return `
+
+Language:
+- Write the summary in ${languageName(lang)}, whatever language the source is in
+- Keep quotes verbatim in the source's own language; don't translate them`;
+}
+
+/** Added to video prompts when the transcript is split into the video's chapters. */
+export function chaptersInstruction(): string {
+  return `
+
+Chapters:
+- The video is divided into chapters. Their headings look like "## [mm:ss] Title" in a transcript and "### [mm:ss] Title" in partial summaries
+- After the key points, organize the summary by chapter: a "### [mm:ss] Title" heading for every chapter, copied exactly and in order, with 1-3 bullet points under each`;
+}
+
+const TRANSLATE_PROMPT = `You are a translator. Translate the given summary into {{language}}.
+
+Guidelines:
+- Translate everything except quotes, which stay verbatim in their original language
+- Keep the structure, formatting, names, numbers, code and links as they are
+- Don't add, drop or shorten anything
+- Output only the translation. No preamble, no notes`;
+
+/** System prompt for translating an existing summary, labelled like resolvePrompt's. */
+export function translatePrompt(lang: string): ResolvedPrompt {
+  const hash = createHash("sha256").update(TRANSLATE_PROMPT).digest("hex");
+  return {
+    text: TRANSLATE_PROMPT.replace("{{language}}", languageName(lang)),
+    label: `translate/${lang}@${hash.slice(0, 8)}`,
+  };
+}
+
+const CHANGES_PROMPT = `You are a concise summarization assistant. You are given a diff between an earlier and the current version of a page that was summarized before: lines starting with "-" were removed, lines starting with "+" were added, the rest is unchanged context.
+
+Output format:
+- Start with a 1-2 sentence TL;DR of what changed
+- Then the changes as bullet points, most important first: what was added, removed or revised, and what it means for a reader of the earlier version
+
+Guidelines:
+- Describe only what the diff shows; don't summarize unchanged content
+- Skip cosmetic edits (typos, formatting, reordering) unless they change the meaning
+- Write like a human. No em-dashes, no AI jargon
+- Output plain markdown`;
+
+/** System prompt for summarizing the changes between two versions of a source, labelled like resolvePrompt's. */
+export function changesPrompt(): ResolvedPrompt {
+  const hash = createHash("sha256").update(CHANGES_PROMPT).digest("hex");
+  return { text: CHANGES_PROMPT, label: `changes@${hash.slice(0, 8)}` };
+}
+
+const STUDY_PROMPT = `You are a study assistant. Turn the given material into flashcards and a multiple-choice quiz that help a reader remember what matters in it.
+
+Guidelines:
+- Cover the key concepts, definitions, facts and how things relate; skip trivia and filler
+- Flashcards ask one thing each, with a short, self-contained answer
+- Quiz questions test understanding, not wording; wrong options should be plausible
+- Vary the position of the correct option
+- Use only what the material says
+- Write like a human. No em-dashes, no AI jargon`;
+
+/** System prompt for flashcards and quizzes, labelled like resolvePrompt's. */
+export function studyPrompt(): ResolvedPrompt {
+  const hash = createHash("sha256").update(STUDY_PROMPT).digest("hex");
+  return { text: STUDY_PROMPT, label: `study@${hash.slice(0, 8)}` };
+}
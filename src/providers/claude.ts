@@ -0,0 +1,50 @@
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { cleanEnv } from "../env";
+import { usageFromSdk } from "../usage";
+import type { Provider } from "./index";
+
+/** Default provider: a single-turn, tool-less Claude Agent SDK query. */
+export const claudeProvider: Provider = {
+  name: "claude",
+  description: "Claude via the Agent SDK (CLAUDE_CODE_OAUTH_TOKEN)",
+
+  async complete({ system, prompt, model, onText, signal }) {
+    const abortController = new AbortController();
+    signal.addEventListener("abort", () => abortController.abort(), { once: true });
+
+    for await (const message of query({
+      prompt,
+      options: {
+        systemPrompt: system,
+        allowedTools: [],
+        maxTurns: 1,
+        permissionMode: "bypassPermissions",
+        allowDangerouslySkipPermissions: true,
+        model,
+        thinking: { type: "adaptive" },
+        settingSources: [],
+        env: cleanEnv(),
+        abortController,
+        includePartialMessages: !!onText,
+      },
+    })) {
+      if (message.type === "stream_event" && onText) {
+        const event = message.event as any;
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          onText(event.delta.text);
+        }
+      }
+      if (message.type === "result") {
+        if (message.subtype === "success") {
+          return { text: message.result, usage: usageFromSdk(message) };
+        }
+        const errors =
+          "errors" in message
+            ? (message.errors as string[])
+            : ["Unknown SDK error"];
+        throw new Error(`Claude SDK error: ${errors.join(", ")}`);
+      }
+    }
+    throw new Error("Claude SDK returned no result");
+  },
+};
@@ -0,0 +1,76 @@
+import type { Provider } from "./index";
+
+/**
+ * Offline provider for exercising the pipeline without a model: returns a deterministic
+ * summary built from the prompt's first sentences. Output depends only on the input.
+ */
+export const fakeProvider: Provider = {
+  name: "fake",
+  description: "Deterministic offline stand-in for testing (no model calls)",
+
+  async complete({ system, prompt, json, onText }) {
+    // Study decks have their own schema; everything else in JSON mode is a structured summary
+    const text = json && system.includes('"cards"') ? fakeDeck(prompt) : fakeSummary(prompt, json);
+    // Stream in word-sized pieces so streaming consumers can be exercised too
+    if (onText) for (const piece of text.match(/\S*\s*/g) ?? []) if (piece) onText(piece);
+    // Rough chars-per-token estimate so usage accounting has something to show
+    const usage = {
+      inputTokens: Math.ceil((system.length + prompt.length) / 4),
+      outputTokens: Math.ceil(text.length / 4),
+      costUsd: 0,
+      durationMs: 0,
+    };
+    return { text, usage };
+  },
+};
+
+/** Sentences of at least four words from the prompt's content, after the "Content:" / "Transcript:" / ... label line. */
+function promptSentences(prompt: string): { body: string; sentences: string[] } {
+  const body = prompt.replace(/^[\s\S]*?\n\n[^\n]*:\n/, "");
+  const sentences = (body.match(/[^.!?\n]+[.!?]/g) ?? [])
+    .map((s) => s.trim())
+    .filter((s) => s.split(/\s+/).length >= 4);
+  return { body, sentences };
+}
+
+/** A study deck: one card per sentence, and quiz questions hiding a sentence among filler options. */
+function fakeDeck(prompt: string): string {
+  const { sentences } = promptSentences(prompt);
+  const pool = sentences.length ? sentences : ["The material is too short to quiz on."];
+  const lead = (s: string) => s.split(/\s+/).slice(0, 3).join(" ");
+  return JSON.stringify({
+    cards: pool.slice(0, 5).map((s) => ({ question: `What follows "${lead(s)}"?`, answer: s })),
+    quiz: pool.slice(0, 3).map((s, i) => {
+      const options = [s, ...["Something else entirely.", "None of the above.", "All of the above."]].slice(0, 4);
+      const answer = i % options.length;
+      [options[0], options[answer]] = [options[answer], options[0]];
+      return { question: `Which sentence starts with "${lead(s)}"?`, options, answer, explanation: "It is in the material." };
+    }),
+  });
+}
+
+function fakeSummary(prompt: string, json?: boolean): string {
+  const title = prompt.match(/^\w+: "(.*)"$/m)?.[1] || "Untitled";
+  const { body, sentences } = promptSentences(prompt);
+  const words = body.split(/\s+/).filter(Boolean).length;
+
+  const tldr = sentences[0] ?? `${title}.`;
+  const points = sentences.slice(1, 6);
+  if (json) {
+    return JSON.stringify({
+      tldr,
+      keyPoints: points.length ? points : [`Covers ${title}`],
+      quotes: sentences.slice(6, 7).map((text) => ({ text })),
+      sections: [],
+      tags: ["fake"],
+    });
+  }
+  return [
+    `**TL;DR:** ${tldr}`,
+    "",
+    ...(points.length ? points : [`Covers ${title}`]).map((p) => `- ${p}`),
+    "",
+    ...sentences.slice(6, 7).flatMap((s) => ["## Notable quotes", "", `> "${s}"`, ""]),
+    `_Fake summary of ${words} words._`,
+  ].join("\n");
+}
@@ -0,0 +1,50 @@
+import { getProviderName, getModel } from "../env";
+import { claudeProvider } from "./claude";
+import { openaiProvider } from "./openai";
+import { fakeProvider } from "./fake";
+import type { Usage } from "../usage";
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  model: string;
+  /** The system prompt asks for a JSON object; providers that support a JSON mode should enable it. */
+  json?: boolean;
+  /** Called with each piece of text as it's generated; providers that can't stream call it once. */
+  onText?: (delta: string) => void;
+  signal: AbortSignal;
+}
+
+export interface Completion {
+  text: string;
+  usage: Usage;
+}
+
+/** A backend that turns a system prompt + user prompt into text. Selected with ELS_PROVIDER. */
+export interface Provider {
+  name: string;
+  description: string;
+  complete(req: CompletionRequest): Promise<Completion>;
+}
+
+const PROVIDERS: Provider[] = [claudeProvider, openaiProvider, fakeProvider];
+
+/** The configured provider. Throws on an unknown ELS_PROVIDER. */
+export function getProvider(): Provider {
+  const name = getProviderName();
+  const provider = PROVIDERS.find((p) => p.name === name);
+  if (!provider) {
+    const known = PROVIDERS.map((p) => p.name).join(", ");
+    throw new Error(`Unknown ELS_PROVIDER "${name}" (available: ${known})`);
+  }
+  return provider;
+}
+
+/**
+ * Model identifier recorded in frontmatter. Claude models stay bare for compatibility
+ * with existing summaries; other providers are prefixed, e.g. "openai/llama3.1:8b".
+ */
+export function getModelId(): string {
+  const name = getProviderName();
+  return name === "claude" ? getModel() : `${name}/${getModel()}`;
+}
@@ -0,0 +1,130 @@
+import type { Provider } from "./index";
+
+// Ollama's default; llama.cpp's server is http://localhost:8080/v1
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+/** Token counts, on the response (or the last stream chunk when include_usage is set). */
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/** The parts of a /chat/completions response we read. */
+interface CompletionResponse {
+  choices?: { message?: { content?: unknown } }[];
+  usage?: CompletionUsage;
+}
+
+/** One server-sent event of a streamed completion. */
+interface CompletionChunk {
+  choices?: { delta?: { content?: unknown } }[];
+  usage?: CompletionUsage | null;
+}
+
+export function getBaseUrl(): string {
+  return (process.env.ELS_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+/** Any OpenAI-compatible /v1/chat/completions server (llama.cpp, Ollama, vLLM, LM Studio, ...). */
+export const openaiProvider: Provider = {
+  name: "openai",
+  description: "OpenAI-compatible chat completions server (ELS_BASE_URL, optional ELS_API_KEY)",
+
+  async complete({ system, prompt, model, json, onText, signal }) {
+    const url = `${getBaseUrl()}/chat/completions`;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (process.env.ELS_API_KEY) headers.Authorization = `Bearer ${process.env.ELS_API_KEY}`;
+
+    const started = performance.now();
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          stream: !!onText,
+          ...(onText ? { stream_options: { include_usage: true } } : {}),
+          ...(json ? { response_format: { type: "json_object" } } : {}),
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: prompt },
+          ],
+        }),
+      });
+    } catch (err: any) {
+      if (signal.aborted) throw err;
+      throw new Error(`Could not reach ${url}: ${err.message}`);
+    }
+
+    if (!res.ok) {
+      const body = (await res.text()).slice(0, 300);
+      throw new Error(`${url} returned ${res.status}: ${body}`);
+    }
+
+    let text: unknown;
+    let usage: CompletionUsage | undefined;
+    if (onText) {
+      ({ text, usage } = await readStream(res, onText));
+    } else {
+      const data = (await res.json()) as CompletionResponse | null;
+      text = data?.choices?.[0]?.message?.content;
+      usage = data?.usage;
+    }
+    if (typeof text !== "string" || !text.trim()) {
+      throw new Error(`${url} returned no completion`);
+    }
+    return {
+      text: stripThinking(text).trim(),
+      usage: {
+        inputTokens: usage?.prompt_tokens ?? 0,
+        outputTokens: usage?.completion_tokens ?? 0,
+        costUsd: 0, // self-hosted: no per-token price
+        durationMs: Math.round(performance.now() - started),
+      },
+    };
+  },
+};
+
+/** Reasoning models served locally often inline their thinking; an unclosed block is still in progress. */
+function stripThinking(text: string): string {
+  return text.replace(/<think>[\s\S]*?<\/think>/g, "").replace(/<think>[\s\S]*$/, "");
+}
+
+/** Consume a server-sent-events completion stream, forwarding visible text as it arrives. */
+async function readStream(
+  res: Response,
+  onText: (delta: string) => void,
+): Promise<{ text: string; usage?: CompletionUsage }> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let shown = 0;
+  let usage: CompletionUsage | undefined;
+  for await (const bytes of res.body!) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1];
+      if (!data || data === "[DONE]") continue;
+      let chunk: CompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta !== "string" || !delta) continue;
+      text += delta;
+      const visible = stripThinking(text);
+      if (visible.length > shown) {
+        onText(visible.slice(shown));
+        shown = visible.length;
+      }
+    }
+  }
+  return { text, usage };
+}
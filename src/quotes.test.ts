@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { checkQuote, markdownQuotes, verifyMarkdownQuotes } from "./quotes";
+
+const SOURCE = `The committee met on Tuesday. "We can’t keep postponing the bridge repairs," said Mayor Álvarez,
+adding that the budget would be revisited in spring. Residents were asked to avoid the east lane.`;
+
+describe("checkQuote", () => {
+  test("verifies exact quotes regardless of case, punctuation, accents and apostrophes", () => {
+    expect(checkQuote("we can't keep postponing the bridge repairs", SOURCE).status).toBe("verified");
+    expect(checkQuote("Mayor Alvarez", SOURCE)).toEqual({ status: "verified", score: 1 });
+  });
+
+  test("matches fragments around an ellipsis separately", () => {
+    expect(checkQuote("We can't keep postponing … revisited in spring", SOURCE).status).toBe("verified");
+  });
+
+  test("marks a paraphrase approximate, with the closest passage", () => {
+    const check = checkQuote("we cannot keep postponing the bridge repairs", SOURCE);
+    expect(check.status).toBe("approximate");
+    expect(check.score).toBeGreaterThanOrEqual(0.6);
+    expect(check.score).toBeLessThan(1);
+    expect(check.passage).toContain("postponing the bridge repairs");
+  });
+
+  test("marks an invented quote unverified", () => {
+    const check = checkQuote("taxes will rise sharply next year for every household", SOURCE);
+    expect(check.status).toBe("unverified");
+    expect(check.passage).toBeDefined();
+  });
+
+  test("treats a quote with no words as unverified", () => {
+    expect(checkQuote("…", SOURCE)).toEqual({ status: "unverified", score: 0 });
+  });
+});
+
+describe("markdown quotes", () => {
+  const summary = [
+    "**TL;DR:** The bridge repairs are delayed again.",
+    "",
+    "## Notable quotes",
+    "",
+    `> "We can't keep postponing the bridge repairs" — Mayor Álvarez`,
+    `> [01:02] “We cannot keep postponing the bridge repairs”`,
+    `> "Taxes will rise sharply next year for every household" — Council *(unverified)*`,
+    "> A plain blockquote, not a quote",
+  ].join("\n");
+
+  test("finds quote lines with their attribution", () => {
+    expect(markdownQuotes(summary)).toEqual([
+      { text: "We can't keep postponing the bridge repairs", attribution: "Mayor Álvarez" },
+      { text: "We cannot keep postponing the bridge repairs" },
+      { text: "Taxes will rise sharply next year for every household", attribution: "Council" },
+    ]);
+  });
+
+  test("flags quotes that don't verify and replaces stale flags", () => {
+    const checked = verifyMarkdownQuotes(summary, SOURCE);
+    expect(checked.quotes.map((q) => q.check!.status)).toEqual(["verified", "approximate", "unverified"]);
+    const lines = checked.summary.split("\n");
+    expect(lines[4]).toBe(`> "We can't keep postponing the bridge repairs" — Mayor Álvarez`);
+    expect(lines[5]).toBe(`> [01:02] “We cannot keep postponing the bridge repairs” *(approximate)*`);
+    expect(lines[6]).toBe(`> "Taxes will rise sharply next year for every household" — Council *(unverified)*`);
+    expect(lines[7]).toBe("> A plain blockquote, not a quote");
+  });
+
+  test("re-checking a checked summary changes nothing", () => {
+    const once = verifyMarkdownQuotes(summary, SOURCE).summary;
+    expect(verifyMarkdownQuotes(once, SOURCE).summary).toBe(once);
+  });
+});
@@ -0,0 +1,160 @@
+import type { Quote, StructuredSummary } from "./structured";
+
+export type QuoteStatus = "verified" | "approximate" | "unverified";
+
+export interface QuoteCheck {
+  status: QuoteStatus;
+  /** Similarity of the best-matching source passage, 0-1. */
+  score: number;
+  /** The closest passage in the source, verbatim; set unless the quote was verified. */
+  passage?: string;
+}
+
+// Best-window similarity at or above this counts as a paraphrase of a real passage
+const APPROXIMATE_THRESHOLD = 0.6;
+// Candidate windows scored with the full edit distance, picked by word overlap
+const CANDIDATES = 8;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/** Words with their offsets, folded for comparison: case, accents, curly apostrophes. */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)) {
+    const word = m[0].normalize("NFKD").replace(/\p{M}/gu, "").replace(/’/g, "'").toLowerCase();
+    tokens.push({ word, start: m.index!, end: m.index! + m[0].length });
+  }
+  return tokens;
+}
+
+/** Word-level Levenshtein distance. */
+function editDistance(a: string[], b: string[]): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Find the source passage closest to one quote fragment. */
+function matchFragment(quote: string[], source: Token[], text: string): { score: number; passage: string } {
+  const n = quote.length;
+  const words = source.map((t) => t.word);
+  if (n === 0 || words.length === 0) return { score: 0, passage: "" };
+
+  // Exact run of words: the quote is verbatim up to case and punctuation
+  const joined = ` ${words.join(" ")} `;
+  const at = joined.indexOf(` ${quote.join(" ")} `);
+  if (at !== -1) {
+    const first = joined.slice(0, at).split(" ").length - 1;
+    return { score: 1, passage: text.slice(source[first].start, source[first + n - 1].end) };
+  }
+
+  // Rank window starts by how many quote words they share, then score the best few exactly
+  const wanted = new Set(quote);
+  const hit = words.map((w) => (wanted.has(w) ? 1 : 0));
+  let overlap = hit.slice(0, n).reduce((a: number, b) => a + b, 0);
+  const starts: { i: number; overlap: number }[] = [{ i: 0, overlap }];
+  for (let i = 1; i + n <= words.length; i++) {
+    overlap += hit[i + n - 1] - hit[i - 1];
+    starts.push({ i, overlap });
+  }
+  const candidates: number[] = [];
+  for (const { i } of starts.sort((a, b) => b.overlap - a.overlap)) {
+    if (candidates.every((c) => Math.abs(c - i) >= n)) candidates.push(i);
+    if (candidates.length >= CANDIDATES) break;
+  }
+
+  let best = { score: 0, from: 0, to: Math.min(n, words.length) - 1 };
+  for (const c of candidates) {
+    for (let from = Math.max(0, c - 2); from <= c + 2; from++) {
+      for (let len = Math.max(1, n - 3); len <= n + 3 && from + len <= words.length; len++) {
+        const window = words.slice(from, from + len);
+        const score = 1 - editDistance(quote, window) / Math.max(n, len);
+        if (score > best.score) best = { score, from, to: from + len - 1 };
+      }
+    }
+  }
+  return { score: best.score, passage: text.slice(source[best.from].start, source[best.to].end) };
+}
+
+/**
+ * Check a quote against the source text. Fragments separated by an ellipsis are matched
+ * separately; the quote is as good as its worst fragment.
+ */
+export function checkQuote(quote: string, source: string): QuoteCheck {
+  const tokens = tokenize(source);
+  const fragments = quote
+    .split(/\.{3}|…|\[\.\.\.\]/)
+    .map((f) => tokenize(f).map((t) => t.word))
+    .filter((f) => f.length > 0);
+  if (fragments.length === 0) return { status: "unverified", score: 0 };
+
+  const matches = fragments.map((f) => matchFragment(f, tokens, source));
+  const score = Math.min(...matches.map((m) => m.score));
+  const status: QuoteStatus =
+    score === 1 ? "verified" : score >= APPROXIMATE_THRESHOLD ? "approximate" : "unverified";
+  return {
+    status,
+    score: Math.round(score * 100) / 100,
+    ...(status === "verified" ? {} : { passage: matches.map((m) => m.passage).join(" … ") }),
+  };
+}
+
+/** Annotate every quote in a structured summary with its verification against the source. */
+export function verifyQuotes(summary: StructuredSummary, source: string): StructuredSummary {
+  return {
+    ...summary,
+    quotes: summary.quotes.map((q): Quote => ({ ...q, check: checkQuote(q.text, source) })),
+  };
+}
+
+/** Quotes that didn't verify, for reporting and re-prompting. */
+export function failedQuotes(summary: StructuredSummary): Quote[] {
+  return summary.quotes.filter((q) => q.check && q.check.status !== "verified");
+}
+
+// A quote line of a markdown summary: > "text" — attribution, maybe after a [mm:ss] or (p. N)
+// citation, maybe followed by the *(status)* flag an earlier check left
+const MD_QUOTE = /^>\s*(?:[[(][^\])]*[\])]\s*)?["“](.+?)["”](.*)$/;
+const MD_FLAG = /\s*\*\((?:approximate|unverified)\)\*\s*$/;
+
+/** A markdown line without the *(status)* flag left by verifyMarkdownQuotes. */
+export function withoutQuoteFlag(line: string): string {
+  return line.replace(MD_FLAG, "");
+}
+
+/** The quotes of a markdown summary: its blockquote lines that open with a quotation mark. */
+export function markdownQuotes(summary: string): Quote[] {
+  return summary.split("\n").flatMap((line) => {
+    const match = withoutQuoteFlag(line).match(MD_QUOTE);
+    if (!match) return [];
+    const attribution = match[2].replace(/^\s*[—–-]\s*/, "").trim();
+    return [{ text: match[1].trim(), ...(attribution ? { attribution } : {}) }];
+  });
+}
+
+/**
+ * Check the quotes of a markdown summary against the source. Returns the summary with each
+ * quote that didn't verify flagged like structuredToMarkdown does, and the checked quotes.
+ */
+export function verifyMarkdownQuotes(summary: string, source: string): { summary: string; quotes: Quote[] } {
+  const quotes: Quote[] = [];
+  const lines = summary.split("\n").map((line) => {
+    const [quote] = markdownQuotes(line);
+    if (!quote) return line;
+    const check = checkQuote(quote.text, source);
+    quotes.push({ ...quote, check });
+    const flag = check.status !== "verified" ? ` *(${check.status})*` : "";
+    return withoutQuoteFlag(line) + flag;
+  });
+  return { summary: lines.join("\n"), quotes };
+}
@@ -0,0 +1,37 @@
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_MS = 2_000;
+const MAX_DELAY_MS = 30_000;
+
+// Errors worth another attempt: timeouts, rate limits, overload, 5xx and dropped connections
+const RETRYABLE =
+  /timed out|timeout|overloaded|rate.?limit|too many requests|\b(408|429|5\d\d)\b|ECONNRESET|ECONNREFUSED|EPIPE|socket|network|fetch failed|Could not reach|no result|no completion/i;
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "");
+  return n >= 0 ? n : fallback;
+}
+
+export function isRetryable(err: unknown): boolean {
+  return err instanceof Error && RETRYABLE.test(err.message);
+}
+
+/**
+ * Run fn, retrying retryable errors with exponential backoff and jitter.
+ * ELS_RETRIES sets the number of retries (default 3), ELS_RETRY_BASE_MS the first delay (default 2s).
+ */
+export async function withRetry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  const retries = envInt("ELS_RETRIES", DEFAULT_RETRIES);
+  const base = envInt("ELS_RETRY_BASE_MS", DEFAULT_BASE_MS);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+      const delay = Math.min(base * 2 ** attempt, MAX_DELAY_MS) * (0.75 + Math.random() / 2);
+      console.error(
+        `  ${label} failed (${err.message}), retrying in ${(delay / 1000).toFixed(1)}s [${attempt + 1}/${retries}]`,
+      );
+      await Bun.sleep(delay);
+    }
+  }
+}
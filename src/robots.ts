@@ -0,0 +1,110 @@
+import { UA, AGENT } from "./ua";
+
+// robots.txt: which paths we may fetch, how long to wait between requests, and where the sitemaps are
+
+export interface Robots {
+  isAllowed(url: string): boolean;
+  /** Seconds to wait between requests, when the site asks for it. */
+  crawlDelay?: number;
+  /** Sitemap URLs declared with Sitemap: lines. */
+  sitemaps: string[];
+}
+
+interface Rule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface Group {
+  agents: string[];
+  rules: Rule[];
+  crawlDelay?: number;
+}
+
+/** "/docs/*.pdf$" → a regex anchored at the start of the path; * matches anything, a final $ the end. */
+function ruleRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parse robots.txt for one agent (ours by default, the token our UA ends with). Groups naming the
+ * agent (case-insensitive) are merged, else the "*" groups. The longest matching Allow/Disallow
+ * pattern wins, Allow on a tie.
+ */
+export function parseRobots(text: string, agent = AGENT): Robots {
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let inAgents = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, "").trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+    } else if (key === "user-agent") {
+      // Consecutive User-agent lines share the rules that follow them
+      if (!current || !inAgents) groups.push((current = { agents: [], rules: [] }));
+      current.agents.push(value.toLowerCase());
+      inAgents = true;
+    } else if (current) {
+      inAgents = false;
+      if (key === "allow" || key === "disallow") {
+        // An empty Disallow allows everything
+        if (value) current.rules.push({ allow: key === "allow", pattern: value, regex: ruleRegex(value) });
+      } else if (key === "crawl-delay") {
+        const seconds = parseFloat(value);
+        if (seconds >= 0) current.crawlDelay = seconds;
+      }
+    }
+  }
+
+  const token = agent.toLowerCase();
+  const named = groups.filter((g) => g.agents.includes(token));
+  const matching = named.length ? named : groups.filter((g) => g.agents.includes("*"));
+  const rules = matching.flatMap((g) => g.rules);
+  const crawlDelay = matching.find((g) => g.crawlDelay !== undefined)?.crawlDelay;
+
+  return {
+    isAllowed(url: string): boolean {
+      let path: string;
+      try {
+        const u = new URL(url);
+        path = u.pathname + u.search;
+      } catch {
+        return true;
+      }
+      let best: Rule | undefined;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        const longer = !best || rule.pattern.length > best.pattern.length;
+        const tieAllow = best && rule.pattern.length === best.pattern.length && rule.allow;
+        if (longer || tieAllow) best = rule;
+      }
+      return best?.allow ?? true;
+    },
+    crawlDelay,
+    sitemaps,
+  };
+}
+
+/** The site's robots.txt. A missing or unreachable one allows everything. */
+export async function fetchRobots(rootUrl: string): Promise<Robots> {
+  try {
+    const resp = await fetch(`${rootUrl}/robots.txt`, { headers: { "User-Agent": UA } });
+    if (resp.ok) return parseRobots(await resp.text());
+  } catch {
+    // Treated as no robots.txt
+  }
+  return parseRobots("");
+}
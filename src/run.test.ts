@@ -0,0 +1,68 @@
+import { describe, expect, test, beforeAll } from "bun:test";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { runSummarize } from "./run";
+import { readSummaryFile, readStructured, readArticleFile } from "./storage";
+import { parseFrontmatter } from "./frontmatter";
+
+// End to end through the fake provider (see test-setup.ts): extract a local file, summarize,
+// check quotes, save and render
+const SENTENCES = Array.from(
+  { length: 12 },
+  (_, i) => `Paragraph ${i + 1} of the report explains one more detail about the harbour project.`,
+);
+
+// Inside the test HOME, so test-setup.ts cleans it up
+const dir = join(process.env.HOME!, "docs");
+const doc = async (name: string, title: string) => {
+  const path = join(dir, name);
+  await writeFile(path, `# ${title}\n\n${SENTENCES.join(" ")}\n`);
+  return path;
+};
+
+beforeAll(async () => {
+  await mkdir(dir, { recursive: true });
+});
+
+describe("runSummarize", () => {
+  test("summarizes a local file and saves the article, summary and page", async () => {
+    const result = await runSummarize({ url: await doc("harbour.md", "Harbour report") });
+    expect(result.cached).toBeFalsy();
+    expect(result.title).toBe("Harbour report");
+    expect(result.slug).toEndWith("_harbour-report");
+    expect(result.structured).toBeUndefined();
+    expect(result.summary).toStartWith(`**TL;DR:** ${SENTENCES[0]}`);
+    expect(result.usage?.outputTokens).toBeGreaterThan(0);
+
+    const stored = parseFrontmatter((await readSummaryFile(result.slug))!);
+    expect(stored.fields.title).toBe("Harbour report");
+    expect(stored.body).toContain(`> "${SENTENCES[6]}"`);
+    expect(await readArticleFile(result.slug)).toContain(SENTENCES[0]);
+
+    const html = await Bun.file(result.htmlPath).text();
+    expect(html).toContain("<title>Harbour report - elsummariz00r</title>");
+    expect(html).toContain(`class="quote-verified"`);
+  });
+
+  test("returns the saved summary for the same file, unless redo is set", async () => {
+    const url = await doc("harbour.md", "Harbour report");
+    const first = await runSummarize({ url });
+    expect(first.cached).toBe(true);
+    const redone = await runSummarize({ url, redo: true });
+    expect(redone.cached).toBeFalsy();
+    expect(redone.slug).toBe(first.slug);
+  });
+
+  test("saves a structured summary with ELS_STRUCTURED=1", async () => {
+    process.env.ELS_STRUCTURED = "1";
+    try {
+      const result = await runSummarize({ url: await doc("ferry.md", "Ferry report") });
+      expect(result.structured?.keyPoints.length).toBeGreaterThan(0);
+      expect(result.structured?.quotes.every((q) => q.check?.status === "verified")).toBe(true);
+      expect(await readStructured(result.slug)).toEqual(result.structured!);
+      expect(result.summary).toStartWith("**TL;DR:**");
+    } finally {
+      delete process.env.ELS_STRUCTURED;
+    }
+  });
+});
@@ -3,11 +3,44 @@ import {
   getActiveTab,
   findTabByUrl,
   extractText,
+  extractCanonical,
+  extractContentType,
   openUrl,
 } from "./cdp";
-import { isYouTube, extractVideoId, fetchCaptions } from "./youtube";
+import { normalizeUrl } from "./url";
+import {
+  isYouTube,
+  isYouTubeList,
+  listUrl,
+  extractVideoId,
+  fetchCaptions,
+  fetchVideoList,
+  type TrackChoice,
+  type VideoMetadata,
+} from "./youtube";
+import { condenseTranscript, stripTimestamps, formatChapters, isTranscriptType } from "./transcript";
+import { toFileUrl, isLocal, readLocalFile, readStdin, STDIN_SCHEME, type LocalFormat, type LocalSource } from "./local";
 import { fetchSite, getRootUrl } from "./site";
-import { summarize, getModelLabel } from "./summarize";
+import { pdfUrl, fetchPdf, formatPdfPages, parsePdfPages, stripPageMarkers } from "./pdf";
+import {
+  summarize,
+  summarizeStructured,
+  reviseStructured,
+  reviseSummary,
+  translateSummary,
+  summarizeChanges,
+  generateDeck,
+  getModelLabel,
+  type SummarizeMeta,
+} from "./summarize";
+import { structuredToMarkdown, type StructuredSummary, type Quote } from "./structured";
+import { verifyQuotes, failedQuotes, verifyMarkdownQuotes, markdownQuotes } from "./quotes";
+import { textDeltas, type OnProgress } from "./progress";
+import { emptyUsage, addUsage, appendLedger, formatCost, formatTokens, type Usage } from "./usage";
+import { resolvePrompt, translatePrompt, changesPrompt, DEFAULT_STYLE, type SummaryType } from "./prompts";
+import { getLang, parseLang, sameLang, languageName, detectLanguage } from "./lang";
+import { chunkText, chunkPages, mapLimit } from "./chunk";
+import { getProvider, getModelId } from "./providers";
 import {
   ensureDirs,
   generateSlug,
@@ -17,37 +50,331 @@ import {
   getLatestSlug,
   findByUrl,
   readSummaryFile,
+  readStructured,
+  readArticleFile,
   resolveSourceUrl,
+  resolveSlug,
+  findTranslation,
+  contentHash,
+  saveChanges,
+  listVersions,
+  readLatestChanges,
+  saveStudy,
+  readStudyDeck,
+  studyPaths,
   HOME,
+  type StudyFiles,
+  type Meta,
 } from "./storage";
-import { generateHTML } from "./html";
+import { parseFrontmatter, parseList } from "./frontmatter";
+import { getEntry } from "./catalog";
+import { diffLines, diffHunks, roughDiff, MAX_DIFF_EDITS, type DiffLine } from "./diff";
+import { markChecked } from "./watch";
+import { generateHTML, generateQuizHTML } from "./html";
+import { deckToTsv, deckToMarkdown, type StudyDeck } from "./study";
 import { openDiscussion } from "./tmux";
+import { openCheckpoint } from "./checkpoint";
 import { join } from "node:path";
-import type { SitePage } from "./site";
+import type { SitePage, SiteResult } from "./site";
 
 // ~60K words ≈ 78K tokens, safe for 200K context window
 const MAX_SITE_WORDS = 60_000;
+// Single articles and transcripts chunk smaller: partial summaries of a focused window keep more detail
+const MAX_CHUNK_WORDS = 25_000;
+// Parallel summarize calls per map-reduce run
+const DEFAULT_CONCURRENCY = 3;
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || "");
+  return n > 0 ? n : fallback;
+}
+
+/** Chunk budget in words for a content type (ELS_CHUNK_WORDS overrides). */
+function chunkBudget(type: Meta["type"]): number {
+  return envInt("ELS_CHUNK_WORDS", type === "site" ? MAX_SITE_WORDS : MAX_CHUNK_WORDS);
+}
+
+function formatPages(pages: SitePage[]): string {
+  return pages.map((p) => `--- ${p.title} (${p.url}) ---\n${p.content}`).join("\n\n");
+}
+
+/** A piece of content for map-reduce, with a label to name it in progress and failure reports. */
+interface Chunk {
+  text: string;
+  label: string;
+}
+
+function textChunks(text: string, maxWords: number, mode: "paragraphs" | "lines"): Chunk[] {
+  return chunkText(text, maxWords, mode).map((t) => {
+    const words = t.split(/\s+/).filter(Boolean);
+    return { text: t, label: `~${words.length} words from "${words.slice(0, 8).join(" ")}..."` };
+  });
+}
+
+/**
+ * A PDF's stored text split between pages, every chunk starting with a page marker so the model
+ * can cite pages. A page bigger than a chunk is split between paragraphs and its marker repeated.
+ */
+function pdfChunks(content: string, maxWords: number): Chunk[] {
+  const pieces = parsePdfPages(content).flatMap(({ page, text }) =>
+    chunkText(text, maxWords, "paragraphs").map((t) => ({
+      page,
+      text: `[p. ${page}]\n\n${t}`,
+      words: t.split(/\s+/).length,
+    })),
+  );
+  const chunks: Chunk[] = [];
+  let current: typeof pieces = [];
+  let words = 0;
+  const flush = () => {
+    if (current.length === 0) return;
+    const first = current[0].page;
+    const last = current.at(-1)!.page;
+    chunks.push({
+      text: current.map((p) => p.text).join("\n\n"),
+      label: first === last ? `page ${first}` : `pages ${first}-${last}`,
+    });
+    current = [];
+    words = 0;
+  };
+  for (const piece of pieces) {
+    if (words + piece.words > maxWords) flush();
+    current.push(piece);
+    words += piece.words;
+  }
+  flush();
+  return chunks;
+}
+
+function pageChunks(pages: SitePage[], maxWords: number): Chunk[] {
+  return chunkPages(pages, maxWords).map((group) => ({
+    text: formatPages(group),
+    label: `${group.length} pages: ${group.map((p) => p.url).join(", ")}`,
+  }));
+}
+
+/**
+ * The final summary (single pass or merge): markdown in the style's own layout, or structured
+ * JSON when ELS_STRUCTURED=1 opts in.
+ */
+async function finalSummary(
+  content: string,
+  meta: SummarizeMeta,
+): Promise<{ summary: string; structured?: StructuredSummary }> {
+  if (process.env.ELS_STRUCTURED !== "1") return { summary: await summarize(content, meta) };
+  return summarizeStructured(content, meta);
+}
+
+/**
+ * Summarize content that was split into chunks. One chunk is a plain single pass; more go
+ * map-reduce: partial summaries with at most ELS_CONCURRENCY in flight, then a merge pass.
+ * Finished partials are checkpointed, so when a chunk fails the run reports it and a rerun
+ * only pays for what's missing. Only the final pass streams to meta.onText. Returns the
+ * summary and the prompt type that produced it.
+ */
+async function summarizeChunks(
+  chunks: Chunk[],
+  meta: SummarizeMeta & { type: ExtractedPage["type"] | "site"; style: string },
+  onProgress?: OnProgress,
+): Promise<{ summary: string; structured?: StructuredSummary; promptType: SummaryType }> {
+  if (chunks.length === 1) {
+    console.error(`  Summarizing with ${getModelLabel()}...`);
+    return { ...(await finalSummary(chunks[0].text, meta)), promptType: meta.type };
+  }
+
+  const concurrency = envInt("ELS_CONCURRENCY", DEFAULT_CONCURRENCY);
+  const checkpoint = openCheckpoint(meta.type, normalizeUrl(meta.url), meta.style, ...(meta.lang ? [meta.lang] : []));
+  const model = getModelId();
+  const prompt = (await resolvePrompt(meta.type, meta.style)).label;
+  console.error(
+    `  Splitting into ${chunks.length} chunks, summarizing with ${getModelLabel()} (${concurrency} at a time)...`,
+  );
+
+  const failures: { index: number; label: string; error: string }[] = [];
+  let resumed = 0;
+  const partials = await mapLimit(chunks, concurrency, async (chunk, i) => {
+    const saved = await checkpoint.get(chunk.text, model, prompt);
+    if (saved !== null) {
+      resumed++;
+      onProgress?.({ event: "chunk_done", index: i + 1, total: chunks.length, resumed: true });
+      return saved;
+    }
+    console.error(`  Chunk ${i + 1}/${chunks.length}: ${chunk.label.slice(0, 100)}`);
+    try {
+      const result = await summarize(chunk.text, { ...meta, onText: undefined });
+      await checkpoint.put(result, chunk.text, model, prompt);
+      console.error(`  Chunk ${i + 1} done (${result.length} chars)`);
+      onProgress?.({ event: "chunk_done", index: i + 1, total: chunks.length });
+      return result;
+    } catch (err: any) {
+      console.error(`  Chunk ${i + 1} failed: ${err.message}`);
+      failures.push({ index: i, label: chunk.label, error: err.message });
+      return null;
+    }
+  });
+  if (resumed) console.error(`  Resumed ${resumed} chunks from an earlier run`);
+
+  if (failures.length) {
+    console.error(`  ${failures.length} of ${chunks.length} chunks failed:`);
+    for (const f of failures.sort((a, b) => a.index - b.index)) {
+      console.error(`    Chunk ${f.index + 1} (${f.label}): ${f.error}`);
+    }
+    throw new Error(
+      `${failures.length} of ${chunks.length} chunks failed; ${chunks.length - failures.length} finished chunks are saved, rerun to resume`,
+    );
+  }
+
+  console.error(`  Merging ${chunks.length} partial summaries...`);
+  const promptType = `${meta.type}-merge` as const;
+  const mergeContent = partials
+    .map((s, i) => `--- Part ${i + 1} of ${chunks.length} ---\n${s}`)
+    .join("\n\n");
+  const result = await finalSummary(mergeContent, { ...meta, type: promptType });
+  await checkpoint.clear();
+  return { ...result, promptType };
+}
+
+/** Re-prompt text for quotes that didn't verify, listing each with its closest source passage. */
+function quoteFixRequest(failed: Quote[], keep: string): string {
+  const list = failed
+    .map((q, i) => `${i + 1}. "${q.text}"\n   Closest source passage: "${q.check!.passage}"`)
+    .join("\n");
+  return `These quotes are presented as verbatim but don't appear in the source:
+${list}
+
+Replace each one with an exact excerpt of its closest passage if that passage says the same thing; otherwise remove the quote. ${keep}`;
+}
+
+function reportQuotes(quotes: Quote[]): void {
+  const failed = quotes.filter((q) => q.check && q.check.status !== "verified");
+  console.error(`  Quotes: ${quotes.length - failed.length}/${quotes.length} verified against the source`);
+  for (const q of failed) {
+    console.error(`    ${q.check!.status}: "${q.text.slice(0, 80)}"`);
+  }
+}
+
+/**
+ * Match the summary's quotes against the source text and annotate them: structured quotes get
+ * their checks, markdown quote lines that don't verify get a flag. With fix set, quotes that
+ * don't verify go back to the model once, along with their closest source passages.
+ */
+async function checkQuotes(
+  result: { summary: string; structured?: StructuredSummary },
+  source: string,
+  meta: SummarizeMeta,
+  fix: boolean,
+): Promise<{ summary: string; structured?: StructuredSummary }> {
+  if (!result.structured) {
+    if (markdownQuotes(result.summary).length === 0) return result;
+    let checked = verifyMarkdownQuotes(result.summary, source);
+    const failed = checked.quotes.filter((q) => q.check!.status !== "verified");
+    if (failed.length && fix) {
+      console.error(`  ${failed.length} quotes not found verbatim in the source, asking for exact wording...`);
+      const request = quoteFixRequest(failed, "Keep everything else unchanged.");
+      const revised = await reviseSummary(result.summary, request, meta);
+      checked = verifyMarkdownQuotes(revised, source);
+    }
+    reportQuotes(checked.quotes);
+    return { summary: checked.summary };
+  }
+
+  if (!result.structured.quotes.length) return result;
+  let structured = verifyQuotes(result.structured, source);
+  const failed = failedQuotes(structured);
+  if (failed.length && fix) {
+    console.error(`  ${failed.length} quotes not found verbatim in the source, asking for exact wording...`);
+    const revised = await reviseStructured(structured, quoteFixRequest(failed, "Keep every other field unchanged."), meta);
+    structured = verifyQuotes(revised.structured, source);
+  }
+  reportQuotes(structured.quotes);
+  return { summary: structuredToMarkdown(structured, meta.type), structured };
+}
+
+/** The text quotes are checked against: transcripts without their timestamps, PDFs without their page markers. */
+function quoteSource(type: string, content: string): string {
+  if (isTranscriptType(type)) return stripTimestamps(content);
+  return type === "pdf" ? stripPageMarkers(content) : content;
+}
+
+/** The language a summary came out in: the one asked for, else a guess from its prose (not its quotes). */
+function summaryLanguage(
+  result: { summary: string; structured?: StructuredSummary },
+  lang?: string,
+): string | undefined {
+  if (lang) return lang;
+  const s = result.structured;
+  return detectLanguage(s ? [s.tldr, ...s.keyPoints, ...s.sections.map((x) => x.summary)].join("\n") : result.summary);
+}
+
+/** " (ja → en)" for progress output, when the languages are known. */
+function languageNote(sourceLang?: string, summaryLang?: string): string {
+  if (!sourceLang && !summaryLang) return "";
+  return ` (${sourceLang ?? "?"} → ${summaryLang ?? "?"})`;
+}
+
+/** Stamp a run's wall-clock time on its accumulated usage and report it. */
+function finishUsage(usage: Usage, started: number): Usage {
+  usage.durationMs = Math.round(performance.now() - started);
+  const cost = usage.costUsd ? ` · ${formatCost(usage.costUsd)}` : "";
+  console.error(
+    `  Usage: ${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out${cost} · ${(usage.durationMs / 1000).toFixed(1)}s`,
+  );
+  return usage;
+}
 
 export interface SummarizeResult {
   slug: string;
   title: string;
   summary: string;
+  structured?: StructuredSummary;
+  /** Spend for this run; absent for cached results. */
+  usage?: Usage;
   htmlPath: string;
   cached?: boolean;
 }
 
-async function getCachedResult(url: string, type?: "web" | "youtube" | "site"): Promise<SummarizeResult | null> {
-  const slug = await findByUrl(url, type);
+/** Report a finished (or cached) result as the run's saved event. */
+function announce(result: SummarizeResult, onProgress?: OnProgress): SummarizeResult {
+  onProgress?.({
+    event: "saved",
+    slug: result.slug,
+    title: result.title,
+    htmlPath: result.htmlPath,
+    cached: !!result.cached,
+    ...(result.usage ? { usage: result.usage } : {}),
+  });
+  return result;
+}
+
+async function getCachedResult(
+  url: string,
+  type: Meta["type"] | undefined,
+  style: string,
+  lang?: string,
+  captionLang?: string,
+): Promise<SummarizeResult | null> {
+  const slug = await findByUrl(url, type, style, lang);
   if (!slug) return null;
+  // A video summarized from another caption track doesn't count
+  if (captionLang) {
+    const article = await readArticleFile(slug);
+    const recorded = article ? parseFrontmatter(article).fields.caption_lang : undefined;
+    if (!recorded || !sameLang(recorded, captionLang)) return null;
+  }
+  return cachedResult(slug);
+}
+
+/** A stored entry as a result, for runs that find their work already done. */
+async function cachedResult(slug: string): Promise<SummarizeResult | null> {
   const summaryText = await readSummaryFile(slug);
   if (!summaryText) return null;
-  const body = summaryText.replace(/^---[\s\S]*?---\n*/, "").trim();
-  const titleMatch = summaryText.match(/^title:\s*"(.+)"$/m);
+  const { fields, body } = parseFrontmatter(summaryText);
   console.error(`  Already summarized: ${slug}`);
   return {
     slug,
-    title: titleMatch?.[1] || slug,
+    title: fields.title || slug,
     summary: body,
+    structured: (await readStructured(slug)) ?? undefined,
     htmlPath: join(HOME, "html", `${slug}.html`),
     cached: true,
   };
@@ -57,11 +384,26 @@ export async function runSummarize(opts: {
   url?: string;
   title?: string;
   redo?: boolean;
+  style?: string;
+  /** Re-prompt once when quotes don't verify against the source (also ELS_FIX_QUOTES=1). */
+  fixQuotes?: boolean;
+  /** Summary language (also ELS_LANG); the model picks when unset. */
+  lang?: string;
+  /** Caption language for videos; YouTube translates the captions when there's no such track. */
+  captionLang?: string;
+  /** For playlists and channels: how many videos to take, and how many to summarize at once. */
+  limit?: number;
+  concurrency?: number;
+  onProgress?: OnProgress;
 }): Promise<SummarizeResult> {
   await ensureDirs();
+  getProvider(); // fail on a bad ELS_PROVIDER before extracting anything
+  const style = opts.style || DEFAULT_STYLE;
+  const lang = opts.lang || getLang();
 
-  // Resolve file:// summary URLs back to original source
-  let targetUrl = opts.url;
+  // Resolve file:// summary URLs back to original source; other paths are local files
+  let targetUrl = opts.url && (await toFileUrl(opts.url));
+  if (targetUrl === "-") return summarizeStdin({ ...opts, style, lang });
   if (targetUrl) {
     const sourceUrl = await resolveSourceUrl(targetUrl);
     if (sourceUrl) {
@@ -75,78 +417,278 @@ export async function runSummarize(opts: {
     const active = await getActiveTab();
     targetUrl = active.url;
   }
+  if (targetUrl.startsWith(COMPARISON_SCHEME)) {
+    throw new Error("This is a comparison page; rerun it with els compare --redo");
+  }
+  if (isYouTubeList(targetUrl)) return runSummarizePlaylist({ ...opts, url: targetUrl });
 
   // Dedup: check if we already have this URL summarized
   if (!opts.redo) {
-    const cached = await getCachedResult(targetUrl);
-    if (cached) return cached;
+    const cached = await getCachedResult(targetUrl, undefined, style, lang, opts.captionLang);
+    if (cached) return announce(cached, opts.onProgress);
+  }
+
+  const source = await extractPage(targetUrl, {
+    title: opts.title,
+    lang,
+    captionLang: opts.captionLang,
+    onProgress: opts.onProgress,
+  });
+
+  // The canonical URL can reveal a page we already have under a different link
+  if (!opts.redo && source.canonical) {
+    const cached = await getCachedResult(source.canonical, "web", style, lang);
+    if (cached) return announce(cached, opts.onProgress);
   }
 
-  let content: string;
-  let title: string;
-  let type: "web" | "youtube";
-  const url = targetUrl;
+  // Re-summarizing (or switching caption tracks) attaches a new version to the existing entry instead of orphaning it
+  const existing = opts.redo || opts.captionLang ? await findByUrl(source.url, source.type, style, lang) : null;
+  return summarizePage(source, {
+    slug: existing ?? undefined,
+    style,
+    lang,
+    fixQuotes: opts.fixQuotes,
+    onProgress: opts.onProgress,
+  });
+}
+
+/**
+ * Summarize text piped to stdin. It's read before the dedup check, since its URL is a hash of
+ * the text: piping the same text again finds the entry.
+ */
+async function summarizeStdin(opts: {
+  title?: string;
+  redo?: boolean;
+  style: string;
+  lang?: string;
+  fixQuotes?: boolean;
+  onProgress?: OnProgress;
+}): Promise<SummarizeResult> {
+  const { style, lang } = opts;
+  const local = await readStdin();
+  opts.onProgress?.({ event: "extracting", url: local.url, type: local.type });
+  console.error(`  Read ${local.format} from stdin, ~${local.content.split(/\s+/).length} words`);
+  const source = localPage(local, opts.title);
+  const existing = await findByUrl(source.url, source.type, style, lang);
+  if (existing && !opts.redo) {
+    const cached = await cachedResult(existing);
+    if (cached) return announce(cached, opts.onProgress);
+  }
+  return summarizePage(source, {
+    slug: existing ?? undefined,
+    style,
+    lang,
+    fixQuotes: opts.fixQuotes,
+    onProgress: opts.onProgress,
+  });
+}
+
+/** A page's text as extracted, plus what we learned about the page along the way. */
+interface ExtractedPage {
+  url: string;
+  title: string;
+  type: "web" | "youtube" | "subtitles" | "document" | "pdf";
+  content: string;
+  sourceLang?: string;
+  /** A local file's format, and a PDF's page count. */
+  format?: LocalFormat;
+  pages?: number;
+  /** The caption track a video's transcript came from, and the video's details. */
+  captions?: TrackChoice;
+  video?: VideoMetadata;
+  /** Other URLs known to serve the page: its canonical link and where the tab ended up. */
+  aliases: string[];
+  canonical?: string | null;
+}
+
+/** "en captions", "en auto-captions" or "de captions translated from en auto-captions". */
+function trackNote(track: TrackChoice): string {
+  const captions = track.kind === "asr" ? "auto-captions" : "captions";
+  return track.translatedFrom
+    ? `${track.lang} captions translated from ${track.translatedFrom} ${captions}`
+    : `${track.lang} ${captions}`;
+}
+
+/** A local file or stdin as a page. Subtitles keep their timestamps; the language is guessed from the bare text. */
+function localPage(local: LocalSource, title?: string): ExtractedPage {
+  return {
+    url: local.url,
+    title: title || local.title,
+    type: local.type,
+    content: local.content,
+    sourceLang: detectLanguage(quoteSource(local.type, local.content)),
+    format: local.format,
+    pages: local.pages,
+    aliases: [],
+  };
+}
+
+/** Extract a YouTube video's captions, a local file's text, or a web page's text through a qutebrowser tab. */
+async function extractPage(
+  url: string,
+  opts: { title?: string; lang?: string; captionLang?: string; onProgress?: OnProgress },
+): Promise<ExtractedPage> {
+  if (url.startsWith(STDIN_SCHEME)) throw new Error("This entry was read from stdin; pipe the text in again instead");
+  if (isLocal(url)) {
+    const local = await readLocalFile(url);
+    opts.onProgress?.({ event: "extracting", url, type: local.type });
+    console.error(`  Read ${local.format} file, ~${local.content.split(/\s+/).length} words`);
+    return localPage(local, opts.title);
+  }
+  const pdf = pdfUrl(url);
+  opts.onProgress?.({ event: "extracting", url, type: isYouTube(url) ? "youtube" : pdf ? "pdf" : "web" });
+  if (pdf) return extractPdf(url, pdf, { title: opts.title });
 
   if (isYouTube(url)) {
-    type = "youtube";
     const videoId = extractVideoId(url);
     if (!videoId) throw new Error("Could not parse YouTube video ID");
 
     console.error(`  Extracting YouTube captions for ${videoId}...`);
-    const result = await fetchCaptions(videoId);
-    content = result.transcript;
-    title = result.title;
-    console.error(`  Got ${result.segments} segments, ~${result.words} words`);
-  } else {
-    type = "web";
-
-    const tabs = await listTabs();
-    const found = findTabByUrl(tabs, url);
-    if (found) {
-      console.error(`  Extracting from tab: ${found.title}...`);
-      content = await extractText(found.id);
-      title = opts.title || found.title;
-    } else {
-      console.error(`  Opening ${url} in qutebrowser...`);
-      const opened = await openUrl(url);
-      console.error(`  Extracting from tab: ${opened.title}...`);
-      content = await extractText(opened.id);
-      title = opts.title || opened.title;
-    }
+    const result = await fetchCaptions(videoId, { lang: opts.lang, captionLang: opts.captionLang });
+    console.error(`  Got ${result.segments.length} segments, ~${result.words} words (${trackNote(result.track)})`);
+    if (result.metadata.chapters.length) console.error(`  ${result.metadata.chapters.length} chapters`);
+    return {
+      url,
+      title: result.title,
+      type: "youtube",
+      content: result.transcript,
+      sourceLang: result.language,
+      captions: result.track,
+      video: result.metadata,
+      aliases: [],
+    };
+  }
 
-    console.error(`  Got ${content.length} chars`);
+  const tabs = await listTabs();
+  let tab = findTabByUrl(tabs, url);
+  if (!tab) {
+    console.error(`  Opening ${url} in qutebrowser...`);
+    tab = await openUrl(url);
+  }
+  // A tab showing a PDF has no useful innerText; read the file itself
+  if ((await extractContentType(tab.id)) === "application/pdf") {
+    return extractPdf(url, tab.url, { title: opts.title, fallback: tab.title });
   }
+  console.error(`  Extracting from tab: ${tab.title}...`);
+  const content = await extractText(tab.id);
+  console.error(`  Got ${content.length} chars`);
 
-  console.error(`  Summarizing with ${getModelLabel()}...`);
-  const summary = await summarize(content, { title, url, type });
-  console.error(`  Summary: ${summary.length} chars`);
+  // Record the page's canonical URL and where the tab ended up, so variants dedup to this entry
+  const canonical = await extractCanonical(tab.id);
+  const aliases: string[] = [];
+  for (const alias of [canonical, tab.url]) {
+    if (alias && normalizeUrl(alias) !== normalizeUrl(url) && !aliases.includes(alias)) {
+      aliases.push(alias);
+    }
+  }
+  return {
+    url,
+    title: opts.title || tab.title,
+    type: "web",
+    content,
+    sourceLang: detectLanguage(content),
+    aliases,
+    canonical,
+  };
+}
 
-  const slug = generateSlug(title);
-  const words = content.split(/\s+/).length;
-  const meta = { title, url, type, words };
+/** Download a PDF and extract its pages. The title is --title, else the PDF's metadata title, else the fallback or file name. */
+async function extractPdf(
+  url: string,
+  fileUrl: string,
+  titles: { title?: string; fallback?: string },
+): Promise<ExtractedPage> {
+  console.error(`  Downloading PDF ${fileUrl}...`);
+  const doc = await fetchPdf(fileUrl);
+  const content = formatPdfPages(doc.pages);
+  if (!content) throw new Error("No text found in this PDF (scanned PDFs need OCR first)");
+  const words = stripPageMarkers(content).split(/\s+/).length;
+  console.error(`  Got ${doc.pages.length} pages, ~${words} words`);
+  const name = decodeURIComponent(new URL(fileUrl).pathname.split("/").pop() || "").replace(/\.pdf$/i, "");
+  return {
+    url,
+    title: titles.title || doc.title || titles.fallback || name || "Untitled",
+    type: "pdf",
+    content,
+    sourceLang: detectLanguage(stripPageMarkers(content)),
+    pages: doc.pages.length,
+    aliases: fileUrl !== url ? [fileUrl] : [],
+  };
+}
 
-  await saveArticle(slug, content, meta);
-  await saveSummary(slug, summary, meta);
+/** Summarize an extracted page and save it, as a new entry or as a new version of `slug`. */
+async function summarizePage(
+  source: ExtractedPage,
+  opts: { slug?: string; style: string; lang?: string; fixQuotes?: boolean; onProgress?: OnProgress },
+): Promise<SummarizeResult> {
+  const { url, title, type, content, sourceLang, format, pages, captions, video, aliases } = source;
+  const { style, lang } = opts;
 
-  const html = generateHTML({
+  // Transcripts split between caption lines (time windows), or between chapters when the video
+  // has them; PDFs between pages; articles between paragraphs. The model reads transcripts with a timestamp every
+  // ~30s; quotes are checked against the bare text.
+  const chapters = video?.chapters ?? [];
+  const transcript = isTranscriptType(type);
+  const text = transcript ? condenseTranscript(content, chapters) : content;
+  const mode = transcript && chapters.length === 0 ? "lines" : "paragraphs";
+  const chunks = type === "pdf" ? pdfChunks(content, chunkBudget(type)) : textChunks(text, chunkBudget(type), mode);
+  const fixQuotes = opts.fixQuotes || process.env.ELS_FIX_QUOTES === "1";
+  const started = performance.now();
+  const summaryMeta = {
     title,
     url,
     type,
-    date: new Date().toISOString().slice(0, 10),
-    words,
-    summary,
-  });
-  const htmlPath = await saveHTML(slug, html);
+    style,
+    lang,
+    chapters: chapters.length > 0,
+    usage: emptyUsage(),
+    onText: textDeltas(opts.onProgress),
+  };
+  const { promptType, ...draft } = await summarizeChunks(chunks, summaryMeta, opts.onProgress);
+  const { summary, structured } = await checkQuotes(draft, quoteSource(type, content), summaryMeta, fixQuotes);
+  const usage = finishUsage(summaryMeta.usage, started);
+  const summaryLang = summaryLanguage({ summary, structured }, lang);
+  console.error(`  Summary: ${summary.length} chars${languageNote(sourceLang, summaryLang)}`);
+
+  const slug = opts.slug || (await generateSlug(title, url, style));
+  const words = quoteSource(type, content).split(/\s+/).length;
+  const videoMeta = video && {
+    channel: video.channel,
+    published: video.published,
+    duration: video.duration,
+    chapters: formatChapters(chapters),
+  };
+  const meta = { title, url, type, words, pages, aliases, style, sourceLang, format, captions, ...videoMeta };
+
+  // The description goes with the source text; the summary keeps what its page shows
+  await saveArticle(slug, content, { ...meta, description: video?.description });
+  await saveSummary(slug, summary, {
+    ...meta,
+    lang: summaryLang,
+    model: getModelId(),
+    prompt: (await resolvePrompt(promptType, style)).label,
+    usage,
+  }, structured);
+  await appendLedger({ date: new Date().toISOString(), kind: "summary", type, model: getModelId(), slug, url, ...usage });
+
+  const htmlPath = await renderStored(slug);
 
   console.error(`  Saved as: ${slug}`);
-  return { slug, title, summary, htmlPath };
+  return announce({ slug, title, summary, structured, usage, htmlPath }, opts.onProgress);
 }
 
 export async function runSummarizeSite(opts: {
   url?: string;
   redo?: boolean;
+  style?: string;
+  fixQuotes?: boolean;
+  lang?: string;
+  onProgress?: OnProgress;
 }): Promise<SummarizeResult> {
   await ensureDirs();
+  getProvider(); // fail on a bad ELS_PROVIDER before extracting anything
+  const style = opts.style || DEFAULT_STYLE;
+  const lang = opts.lang || getLang();
 
   // Get URL from opts or active tab
   let targetUrl = opts.url;
@@ -166,111 +708,707 @@ export async function runSummarizeSite(opts: {
 
   // Dedup check — only match "site" type, not "web" summaries of the same URL
   if (!opts.redo) {
-    const cached = await getCachedResult(rootUrl, "site");
-    if (cached) return cached;
+    const cached = await getCachedResult(rootUrl, "site", style, lang);
+    if (cached) return announce(cached, opts.onProgress);
   }
 
   // Fetch all pages
+  opts.onProgress?.({ event: "extracting", url: rootUrl, type: "site" });
   const site = await fetchSite(targetUrl);
 
-  // Format content for storage: each page as a section
-  const content = site.pages
-    .map((p) => `--- ${p.title} (${p.url}) ---\n${p.content}`)
-    .join("\n\n");
+  const existing = opts.redo ? await findByUrl(rootUrl, "site", style, lang) : null;
+  return summarizeSite(site, rootUrl, {
+    slug: existing ?? undefined,
+    style,
+    lang,
+    fixQuotes: opts.fixQuotes,
+    onProgress: opts.onProgress,
+  });
+}
 
-  let summary: string;
+/** Summarize a fetched site and save it, as a new entry or as a new version of `slug`. */
+async function summarizeSite(
+  site: SiteResult,
+  rootUrl: string,
+  opts: { slug?: string; style: string; lang?: string; fixQuotes?: boolean; onProgress?: OnProgress },
+): Promise<SummarizeResult> {
+  const { style, lang } = opts;
 
-  if (site.totalWords <= MAX_SITE_WORDS) {
-    // Single pass — fits in context
-    console.error(`  Summarizing with ${getModelLabel()}...`);
-    summary = await summarize(content, {
-      title: site.title,
-      url: rootUrl,
-      type: "site",
-    });
-  } else {
-    // Map-reduce — split into chunks, summarize each, merge
-    const chunks = chunkPages(site.pages, MAX_SITE_WORDS);
-    console.error(`  Site too large for single pass (${site.totalWords} words)`);
-    console.error(`  Splitting into ${chunks.length} chunks, summarizing in parallel...`);
-
-    const chunkSummaries = await Promise.all(
-      chunks.map(async (chunk, i) => {
-        const chunkContent = chunk
-          .map((p) => `--- ${p.title} (${p.url}) ---\n${p.content}`)
-          .join("\n\n");
-        const chunkWords = chunk.reduce((sum, p) => sum + p.words, 0);
-        console.error(`  Chunk ${i + 1}/${chunks.length}: ${chunk.length} pages, ~${chunkWords} words`);
-        const result = await summarize(chunkContent, {
-          title: site.title,
-          url: rootUrl,
-          type: "site",
-        });
-        console.error(`  Chunk ${i + 1} done (${result.length} chars)`);
-        return result;
-      }),
-    );
+  // Format content for storage: each page as a section
+  const content = formatPages(site.pages);
 
-    // Merge partial summaries
-    console.error(`  Merging ${chunks.length} partial summaries...`);
-    const mergeContent = chunkSummaries
-      .map((s, i) => `--- Part ${i + 1} of ${chunks.length} ---\n${s}`)
-      .join("\n\n");
-    summary = await summarize(mergeContent, {
-      title: site.title,
-      url: rootUrl,
-      type: "site-merge",
-    });
+  // Chunks break between pages, never inside one
+  const budget = chunkBudget("site");
+  if (site.totalWords > budget) {
+    console.error(`  Site too large for single pass (${site.totalWords} words)`);
   }
+  const chunks = pageChunks(site.pages, budget);
+  const siteMeta = {
+    title: site.title,
+    url: rootUrl,
+    type: "site" as const,
+    style,
+    lang,
+    usage: emptyUsage(),
+    onText: textDeltas(opts.onProgress),
+  };
+  const fixQuotes = opts.fixQuotes || process.env.ELS_FIX_QUOTES === "1";
+  const started = performance.now();
+  const { promptType, ...draft } = await summarizeChunks(chunks, siteMeta, opts.onProgress);
+  const { summary, structured } = await checkQuotes(draft, content, siteMeta, fixQuotes);
+  const usage = finishUsage(siteMeta.usage, started);
+  const sourceLang = detectLanguage(content);
+  const summaryLang = summaryLanguage({ summary, structured }, lang);
 
-  console.error(`  Summary: ${summary.length} chars`);
-
-  const slug = generateSlug(site.title);
-  const meta = { title: site.title, url: rootUrl, type: "site" as const, words: site.totalWords };
-
-  await saveArticle(slug, content, meta);
-  await saveSummary(slug, summary, meta);
+  console.error(`  Summary: ${summary.length} chars${languageNote(sourceLang, summaryLang)}`);
 
-  const html = generateHTML({
+  const slug = opts.slug || (await generateSlug(site.title, rootUrl, style));
+  const meta = {
     title: site.title,
     url: rootUrl,
-    type: "site",
-    date: new Date().toISOString().slice(0, 10),
+    type: "site" as const,
     words: site.totalWords,
     pages: site.pages.length,
-    summary,
+    style,
+    sourceLang,
+  };
+
+  await saveArticle(slug, content, meta);
+  await saveSummary(slug, summary, {
+    ...meta,
+    lang: summaryLang,
+    model: getModelId(),
+    prompt: (await resolvePrompt(promptType, style)).label,
+    usage,
+  }, structured);
+  await appendLedger({
+    date: new Date().toISOString(),
+    kind: "summary",
+    type: "site",
+    model: getModelId(),
+    slug,
+    url: rootUrl,
+    ...usage,
+  });
+
+  const htmlPath = await renderStored(slug);
+
+  console.error(`  Saved as: ${slug}`);
+  if (site.failed.length) {
+    console.error(`  Note: ${site.failed.length} pages could not be fetched and are not in the summary`);
+  }
+  return announce({ slug, title: site.title, summary, structured, usage, htmlPath }, opts.onProgress);
+}
+
+/**
+ * Translate a stored summary into another language as its own entry, reusing the saved article
+ * instead of extracting the source again. Translations of a translation start from the original.
+ */
+export async function runTranslate(opts: {
+  ref: string;
+  lang: string;
+  redo?: boolean;
+  onProgress?: OnProgress;
+}): Promise<SummarizeResult> {
+  getProvider();
+  const lang = parseLang(opts.lang);
+  let slug = await resolveSlug(opts.ref);
+  if (!slug) throw new Error(`Not in the library: ${opts.ref}`);
+  let text = await readSummaryFile(slug);
+  if (!text) throw new Error(`No summary found for ${slug}`);
+  let { fields, body } = parseFrontmatter(text);
+  if (fields.translated_from && (await readSummaryFile(fields.translated_from))) {
+    slug = fields.translated_from;
+    text = (await readSummaryFile(slug))!;
+    ({ fields, body } = parseFrontmatter(text));
+  }
+  if (fields.lang && sameLang(fields.lang, lang)) {
+    throw new Error(`${slug} is already in ${languageName(fields.lang)}`);
+  }
+
+  const existing = await findTranslation(slug, lang);
+  if (existing && !opts.redo) {
+    const cached = await cachedResult(existing);
+    if (cached) return announce(cached, opts.onProgress);
+  }
+
+  const title = fields.title || slug;
+  const url = fields.url || "";
+  const type = (fields.type || "web") as Meta["type"];
+  const style = fields.style || DEFAULT_STYLE;
+  const article = await readArticleFile(slug);
+  const source = article ? parseFrontmatter(article).body : "";
+
+  console.error(`  Translating ${slug} into ${languageName(lang)} with ${getModelLabel()}...`);
+  const started = performance.now();
+  const meta = { title, url, type, style, lang, usage: emptyUsage(), onText: textDeltas(opts.onProgress) };
+  const draft = await translateSummary(
+    { summary: body, structured: (await readStructured(slug)) ?? undefined },
+    lang,
+    meta,
+  );
+  // Quotes stay in the source's language, so they still check against the article
+  const { summary, structured } = source ? await checkQuotes(draft, quoteSource(type, source), meta, false) : draft;
+  const usage = finishUsage(meta.usage, started);
+
+  const target = existing || (await generateSlug(title, url, style, lang));
+  const entryMeta = {
+    title,
+    url,
+    type,
+    words: parseInt(fields.words || "0") || 0,
+    pages: fields.pages ? parseInt(fields.pages) : undefined,
+    style,
+    sourceLang: fields.source_lang,
+    sources: parseList(fields.sources),
+  };
+  if (article) await saveArticle(target, source, entryMeta);
+  await saveSummary(target, summary, {
+    ...entryMeta,
+    lang,
+    translatedFrom: slug,
+    model: getModelId(),
+    prompt: translatePrompt(lang).label,
+    usage,
+  }, structured);
+  await appendLedger({ date: new Date().toISOString(), kind: "translation", type, model: getModelId(), slug: target, url, ...usage });
+
+  const htmlPath = await renderStored(target);
+  console.error(`  Saved as: ${target}`);
+  return announce({ slug: target, title, summary, structured, usage, htmlPath }, opts.onProgress);
+}
+
+export const DEFAULT_PLAYLIST_LIMIT = 50;
+export const DEFAULT_PLAYLIST_CONCURRENCY = 2;
+
+/**
+ * Summarize the videos of a YouTube playlist or channel, at most `concurrency` at a time, then
+ * write a roll-up `playlist` entry that links to each video's summary. Videos already in the
+ * library are reused, and videos that fail (no captions, private) are skipped. --redo redoes
+ * the roll-up and picks up new videos, not the videos already summarized.
+ */
+export async function runSummarizePlaylist(opts: {
+  url: string;
+  redo?: boolean;
+  style?: string;
+  fixQuotes?: boolean;
+  lang?: string;
+  captionLang?: string;
+  limit?: number;
+  concurrency?: number;
+  onProgress?: OnProgress;
+}): Promise<SummarizeResult> {
+  await ensureDirs();
+  getProvider();
+  const style = opts.style || DEFAULT_STYLE;
+  const lang = opts.lang || getLang();
+  const url = listUrl(opts.url);
+  if (!url) throw new Error(`Not a YouTube playlist or channel: ${opts.url}`);
+
+  if (!opts.redo) {
+    const cached = await getCachedResult(url, "playlist", style, lang);
+    if (cached) return announce(cached, opts.onProgress);
+  }
+
+  opts.onProgress?.({ event: "extracting", url, type: "playlist" });
+  console.error(`  Listing videos of ${url}...`);
+  const list = await fetchVideoList(url, opts.limit ?? DEFAULT_PLAYLIST_LIMIT);
+  if (list.videos.length === 0) throw new Error(`No videos found in ${url}`);
+
+  const concurrency = opts.concurrency ?? DEFAULT_PLAYLIST_CONCURRENCY;
+  console.error(`  ${list.videos.length} videos in "${list.title}", summarizing ${concurrency} at a time...`);
+  let done = 0;
+  const failed: { url: string; error: string }[] = [];
+  // Each video runs without progress callbacks: streamed text from parallel runs would interleave
+  const results = await mapLimit(list.videos, concurrency, async (video) => {
+    let result: SummarizeResult | null = null;
+    try {
+      result = await runSummarize({ url: video.url, style, lang, captionLang: opts.captionLang, fixQuotes: opts.fixQuotes });
+    } catch (err: any) {
+      console.error(`  Skipping ${video.url}: ${err.message}`);
+      failed.push({ url: video.url, error: err.message });
+    }
+    done++;
+    opts.onProgress?.({
+      event: "video_done",
+      index: done,
+      total: list.videos.length,
+      url: video.url,
+      ...(result ? { slug: result.slug, cached: !!result.cached } : { error: failed.at(-1)!.error }),
+    });
+    return result;
   });
-  const htmlPath = await saveHTML(slug, html);
+  const videos = list.videos.flatMap((video, i) => (results[i] ? [{ ...results[i], url: video.url }] : []));
+  if (videos.length === 0) throw new Error(`None of the ${list.videos.length} videos could be summarized`);
+
+  const content = videos
+    .map((v, i) => `--- Video [${i + 1}]: ${v.title} (${v.url}) ---\n${v.summary}`)
+    .join("\n\n");
+  console.error(`  Writing the ${list.kind} summary from ${videos.length} videos with ${getModelLabel()}...`);
+  const started = performance.now();
+  const meta = { title: list.title, url, type: "playlist" as const, style, lang, usage: emptyUsage(), onText: textDeltas(opts.onProgress) };
+  const summary = await summarize(content, meta);
+  const usage = finishUsage(meta.usage, started);
 
+  const existing = opts.redo ? await findByUrl(url, "playlist", style, lang) : null;
+  const slug = existing || (await generateSlug(list.title, url, style));
+  const entryMeta = {
+    title: list.title,
+    url,
+    type: "playlist" as const,
+    words: countWords(content),
+    sources: videos.map((v) => v.slug),
+    style,
+  };
+
+  await saveArticle(slug, content, entryMeta);
+  await saveSummary(slug, summary, {
+    ...entryMeta,
+    lang: summaryLanguage({ summary }, lang),
+    model: getModelId(),
+    prompt: (await resolvePrompt("playlist", style)).label,
+    usage,
+  });
+  await appendLedger({ date: new Date().toISOString(), kind: "summary", type: "playlist", model: getModelId(), slug, url, ...usage });
+
+  const htmlPath = await renderStored(slug);
+  if (failed.length) {
+    console.error(`  ${failed.length} of ${list.videos.length} videos were skipped:`);
+    for (const f of failed) console.error(`    ${f.url}: ${f.error}`);
+  }
   console.error(`  Saved as: ${slug}`);
-  return { slug, title: site.title, summary, htmlPath };
+  return announce({ slug, title: list.title, summary, usage, htmlPath }, opts.onProgress);
+}
+
+// Comparisons are stored under a synthetic URL naming their sources, so the same set dedups
+const COMPARISON_SCHEME = "compare:";
+
+function comparisonUrl(slugs: string[]): string {
+  return COMPARISON_SCHEME + [...slugs].sort().join(",");
+}
+
+/** Title and URL of each comparison source that's still in the library, for the sources list. */
+async function sourceLinks(slugs: string[]): Promise<{ slug: string; title: string; url: string }[] | undefined> {
+  if (slugs.length === 0) return undefined;
+  const links = [];
+  for (const slug of slugs) {
+    const entry = await getEntry(slug);
+    links.push({ slug, title: entry?.title || slug, url: entry?.url || "" });
+  }
+  return links;
 }
 
-/** Split pages into chunks where each chunk's total words < maxWords. */
-function chunkPages(pages: SitePage[], maxWords: number): SitePage[][] {
-  const chunks: SitePage[][] = [];
-  let current: SitePage[] = [];
-  let currentWords = 0;
+/**
+ * Compare several library entries: what they agree on, where they disagree, what only one says,
+ * and a combined TL;DR. Sources can be slugs or URLs; URLs not in the library are summarized
+ * first. The comparison reads the full articles when they fit in one pass, their summaries otherwise,
+ * and is saved as its own `comparison` entry listing its sources.
+ */
+export async function runCompare(opts: {
+  refs: string[];
+  redo?: boolean;
+  style?: string;
+  lang?: string;
+  onProgress?: OnProgress;
+}): Promise<SummarizeResult> {
+  await ensureDirs();
+  getProvider();
+  const style = opts.style || DEFAULT_STYLE;
+  const lang = opts.lang || getLang();
 
-  for (const page of pages) {
-    if (currentWords + page.words > maxWords && current.length > 0) {
-      chunks.push(current);
-      current = [];
-      currentWords = 0;
+  const slugs: string[] = [];
+  for (const ref of opts.refs) {
+    let slug = await resolveSlug(ref);
+    if (!slug && /^https?:\/\//.test(ref)) {
+      console.error(`  Not in the library yet: ${ref}`);
+      slug = (await runSummarize({ url: ref, lang })).slug;
     }
-    current.push(page);
-    currentWords += page.words;
+    if (!slug) throw new Error(`Not in the library: ${ref}`);
+    if ((await getEntry(slug))?.type === "comparison") throw new Error(`${slug} is itself a comparison`);
+    if (!slugs.includes(slug)) slugs.push(slug);
   }
-  if (current.length > 0) chunks.push(current);
-  return chunks;
+  if (slugs.length < 2) throw new Error("Need at least two different sources to compare");
+
+  const url = comparisonUrl(slugs);
+  if (!opts.redo) {
+    const cached = await getCachedResult(url, "comparison", style, lang);
+    if (cached) return announce(cached, opts.onProgress);
+  }
+
+  const sources = [];
+  for (const slug of slugs) {
+    const summary = parseFrontmatter((await readSummaryFile(slug)) || "");
+    const article = await readArticleFile(slug);
+    const body = article ? parseFrontmatter(article).body : "";
+    sources.push({
+      slug,
+      title: summary.fields.title || slug,
+      url: summary.fields.url || "",
+      summary: summary.body,
+      article: isTranscriptType(summary.fields.type || "") ? condenseTranscript(body) : body,
+    });
+  }
+  const words = sources.reduce((n, s) => n + s.article.split(/\s+/).length, 0);
+  const useArticles = sources.every((s) => s.article) && words <= chunkBudget("site");
+  console.error(
+    `  Comparing ${sources.length} sources (${useArticles ? `full text, ~${words} words` : "their summaries"}) with ${getModelLabel()}...`,
+  );
+  const content = sources
+    .map((s, i) => `--- Source [${i + 1}]: ${s.title} (${s.url}) ---\n${useArticles ? s.article : s.summary}`)
+    .join("\n\n");
+  const title = `Comparison: ${sources.map((s) => s.title).join(" / ")}`;
+
+  const started = performance.now();
+  const meta = { title, url, type: "comparison" as const, style, lang, usage: emptyUsage(), onText: textDeltas(opts.onProgress) };
+  const summary = await summarize(content, meta);
+  const usage = finishUsage(meta.usage, started);
+
+  const existing = opts.redo ? await findByUrl(url, "comparison", style, lang) : null;
+  const slug = existing || (await generateSlug(`compare ${sources.map((s) => s.title).join(" vs ")}`, url, style));
+  const entryMeta = { title, url, type: "comparison" as const, words, sources: slugs, style };
+
+  await saveArticle(slug, content, entryMeta);
+  await saveSummary(slug, summary, {
+    ...entryMeta,
+    lang: summaryLanguage({ summary }, lang),
+    model: getModelId(),
+    prompt: (await resolvePrompt("comparison", style)).label,
+    usage,
+  });
+  await appendLedger({ date: new Date().toISOString(), kind: "summary", type: "comparison", model: getModelId(), slug, url, ...usage });
+
+  const htmlPath = await renderStored(slug);
+  console.error(`  Saved as: ${slug}`);
+  return announce({ slug, title, summary, usage, htmlPath }, opts.onProgress);
+}
+
+// Refreshes keep the current summary when fewer words than this changed (timestamps, counters, typos)
+const MIN_CHANGED_WORDS = 10;
+
+// Runs of changed lines up to this many words are compared word by word; no more than
+// MAX_DIFF_EDITS, so diffLines always lines them up
+const MAX_WORD_DIFF = MAX_DIFF_EDITS;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Words added or removed. Each run of changed lines is compared word by word, so an edit inside
+ * a long paragraph counts the words that changed, not the whole paragraph twice.
+ */
+function changedWordCount(lines: DiffLine[]): number {
+  const asLines = (text: string) => text.split(/\s+/).filter(Boolean).join("\n");
+  let total = 0;
+  let removed = "";
+  let added = "";
+  const flush = () => {
+    const a = countWords(removed);
+    const b = countWords(added);
+    if (!a || !b || a + b > MAX_WORD_DIFF) total += a + b;
+    else total += diffLines(asLines(removed), asLines(added))!.filter((l) => l.op !== "same").length;
+    removed = added = "";
+  };
+  for (const line of lines) {
+    if (line.op === "del") removed += `${line.text}\n`;
+    else if (line.op === "add") added += `${line.text}\n`;
+    else if (removed || added) flush();
+  }
+  flush();
+  return total;
+}
+
+/** A line diff as the model sees it: hunks of changed lines with a little context, cut off at maxWords. */
+function diffText(lines: DiffLine[], maxWords: number): string {
+  const hunks: string[] = [];
+  let words = 0;
+  for (const hunk of diffHunks(lines, 2)) {
+    const text = hunk
+      .filter((l) => l.text.trim())
+      .map((l) => `${l.op === "add" ? "+" : l.op === "del" ? "-" : " "} ${l.text}`)
+      .join("\n");
+    words += countWords(text);
+    if (words > maxWords && hunks.length) {
+      hunks.push("[diff truncated]");
+      break;
+    }
+    hunks.push(text);
+  }
+  return hunks.join("\n...\n");
+}
+
+export interface RefreshResult {
+  slug: string;
+  url: string;
+  /** minor: the text changed, but by fewer words than the threshold, so the summary was kept. */
+  status: "unchanged" | "minor" | "changed";
+  /** Words on added and removed lines. */
+  changedWords: number;
+  /** The "what changed" summary, when the entry was re-summarized. */
+  changes?: string;
+  usage?: Usage;
+  htmlPath: string;
+}
+
+/**
+ * Extract an entry's source again and compare it with the saved article. When the text changed
+ * by at least minChange words, summarize it again as a new version and summarize the diff
+ * into a "what changed" note shown on the entry's page.
+ */
+export async function runRefresh(opts: { ref: string; minChange?: number }): Promise<RefreshResult> {
+  await ensureDirs();
+  getProvider();
+  const slug = await resolveSlug(opts.ref);
+  if (!slug) throw new Error(`Not in the library: ${opts.ref}`);
+  const text = await readSummaryFile(slug);
+  if (!text) throw new Error(`No summary found for ${slug}`);
+  const { fields } = parseFrontmatter(text);
+  if (fields.type === "comparison") {
+    throw new Error(`${slug} is a comparison; refresh its sources, then rerun els compare --redo`);
+  }
+  if (fields.type === "playlist") {
+    throw new Error(`${slug} is a playlist; rerun it with --redo to pick up new videos`);
+  }
+  if (fields.translated_from) {
+    throw new Error(`${slug} is a translation; refresh ${fields.translated_from} instead`);
+  }
+  const article = await readArticleFile(slug);
+  if (!article) throw new Error(`No saved article for ${slug}`);
+  const stored = parseFrontmatter(article);
+  const before = stored.body;
+  // Articles saved before hashes were recorded are hashed now
+  const oldHash = stored.fields.content_hash || contentHash(before);
+
+  const url = fields.url || "";
+  const type = (fields.type || "web") as ExtractedPage["type"] | "site";
+  const style = fields.style || DEFAULT_STYLE;
+  const lang = fields.lang || undefined;
+  const htmlPath = join(HOME, "html", `${slug}.html`);
+
+  console.error(`  Checking ${slug} for changes...`);
+  let after: string;
+  let resummarize: () => Promise<SummarizeResult>;
+  if (type === "site") {
+    const site = await fetchSite(url);
+    after = formatPages(site.pages);
+    resummarize = () => summarizeSite(site, url, { slug, style, lang });
+  } else {
+    // Videos are checked against the same caption track they were summarized from
+    const source = await extractPage(url, { lang, captionLang: stored.fields.caption_lang });
+    after = source.content;
+    resummarize = () => summarizePage(source, { slug, style, lang });
+  }
+
+  if (contentHash(after) === oldHash) {
+    console.error("  No changes");
+    await markChecked(slug, false);
+    return { slug, url, status: "unchanged", changedWords: 0, htmlPath };
+  }
+  let lines = diffLines(before, after);
+  if (!lines) {
+    console.error("  Too many changes to line up, comparing removed and added lines");
+    lines = roughDiff(before, after);
+  }
+  const changedWords = changedWordCount(lines);
+  const minChange = opts.minChange ?? MIN_CHANGED_WORDS;
+  if (changedWords < minChange) {
+    // The saved article stays as it was, so small edits add up until they cross the threshold
+    console.error(`  Only ${changedWords} words changed, keeping the current summary`);
+    await markChecked(slug, false);
+    return { slug, url, status: "minor", changedWords, htmlPath };
+  }
+
+  console.error(`  ${changedWords} words changed, summarizing again...`);
+  const result = await resummarize();
+
+  console.error("  Summarizing what changed...");
+  const started = performance.now();
+  const meta = { title: result.title, url, type, style, lang, usage: emptyUsage() };
+  const changes = await summarizeChanges(diffText(lines, chunkBudget(type)), meta);
+  const usage = finishUsage(meta.usage, started);
+  const version = (await listVersions(slug)).at(-1)?.version ?? 1;
+  await saveChanges(slug, version, changes, {
+    title: result.title,
+    url,
+    type,
+    words: changedWords,
+    model: getModelId(),
+    prompt: changesPrompt().label,
+    usage,
+  });
+  await appendLedger({ date: new Date().toISOString(), kind: "changes", type, model: getModelId(), slug, url, ...usage });
+  await markChecked(slug, true);
+
+  return {
+    slug,
+    url,
+    status: "changed",
+    changedWords,
+    changes,
+    usage: addUsage({ ...(result.usage ?? emptyUsage()) }, usage),
+    htmlPath: await renderStored(slug),
+  };
+}
+
+/**
+ * Split total into whole parts in proportion to weights (summing to 1). Rounding the running
+ * total keeps the sum exact and spreads small totals evenly instead of giving them to the first parts.
+ */
+function apportion(total: number, weights: number[]): number[] {
+  let cumulative = 0;
+  let assigned = 0;
+  return weights.map((w, i) => {
+    cumulative += w;
+    const upTo = i === weights.length - 1 ? total : Math.round(total * cumulative);
+    const part = upTo - assigned;
+    assigned = upTo;
+    return part;
+  });
+}
+
+// Default study deck size
+const DEFAULT_CARDS = 20;
+const DEFAULT_QUESTIONS = 10;
+
+export interface StudyResult {
+  slug: string;
+  title: string;
+  deck: StudyDeck;
+  files: StudyFiles;
+  /** Spend for this run; absent when the saved deck was reused. */
+  usage?: Usage;
+  cached?: boolean;
+}
+
+/**
+ * Turn a stored article (or a site's pages) into flashcards and a multiple-choice quiz, saved
+ * with an Anki TSV, a Markdown deck and an interactive quiz page linked from the summary page.
+ * Long content is split like it is for summaries, and each chunk gets its share of the cards
+ * and questions. An existing deck is re-exported instead of generated again unless redo is set.
+ */
+export async function runStudy(opts: {
+  ref: string;
+  cards?: number;
+  questions?: number;
+  redo?: boolean;
+  lang?: string;
+}): Promise<StudyResult> {
+  const slug = await resolveSlug(opts.ref);
+  if (!slug) throw new Error(`Not in the library: ${opts.ref}`);
+  const text = await readSummaryFile(slug);
+  if (!text) throw new Error(`No summary found for ${slug}`);
+  const { fields } = parseFrontmatter(text);
+  const article = await readArticleFile(slug);
+  if (!article) throw new Error(`No saved article for ${slug}`);
+  const type = (fields.type || "web") as Meta["type"];
+  const stored = parseFrontmatter(article).body;
+  if (!stored) throw new Error(`The saved article for ${slug} is empty`);
+  const content = isTranscriptType(type) ? condenseTranscript(stored) : stored;
+  const title = fields.title || slug;
+  const url = fields.url || "";
+  const tags = ["elsummariz00r", ...((await readStructured(slug))?.tags ?? [])];
+
+  const exportDeck = async (deck: StudyDeck) =>
+    saveStudy(slug, deck, {
+      tsv: deckToTsv(deck, tags),
+      markdown: deckToMarkdown(deck, { title, url }),
+      html: generateQuizHTML({
+        slug,
+        title,
+        url,
+        date: (fields.date || new Date().toISOString()).slice(0, 10),
+        lang: fields.lang,
+        deck,
+      }),
+    });
+
+  const saved = opts.redo ? null : await readStudyDeck(slug);
+  if (saved) {
+    console.error(`  Study deck already made: ${slug}`);
+    const files = await exportDeck(saved);
+    await renderStored(slug);
+    return { slug, title, deck: saved, files, cached: true };
+  }
+
+  getProvider();
+  const cards = opts.cards ?? DEFAULT_CARDS;
+  const questions = opts.questions ?? DEFAULT_QUESTIONS;
+  const budget = chunkBudget(type === "comparison" || type === "playlist" ? "site" : type);
+  const chunks =
+    type === "pdf" ? pdfChunks(content, budget) : textChunks(content, budget, isTranscriptType(type) ? "lines" : "paragraphs");
+  const totalWords = countWords(content);
+  // Each chunk's share of the deck follows its share of the text; chunks whose share rounds to
+  // nothing are skipped
+  const weights = chunks.map((c) => countWords(c.text) / totalWords);
+  const cardShares = apportion(cards, weights);
+  const questionShares = apportion(questions, weights);
+  const shares = chunks.map((_, i) => ({ cards: cardShares[i], questions: questionShares[i] }));
+  const used = chunks.flatMap((chunk, i) => (shares[i].cards || shares[i].questions ? [{ chunk, share: shares[i] }] : []));
+
+  console.error(
+    `  Writing ${cards} flashcards and ${questions} quiz questions${used.length > 1 ? ` from ${used.length} chunks` : ""} with ${getModelLabel()}...`,
+  );
+  const started = performance.now();
+  const meta = { title, url, type, lang: opts.lang, usage: emptyUsage() };
+  const parts = await mapLimit(used, envInt("ELS_CONCURRENCY", DEFAULT_CONCURRENCY), ({ chunk, share }) =>
+    generateDeck(chunk.text, share, meta),
+  );
+  const deck: StudyDeck = {
+    cards: parts.flatMap((p, i) => p.cards.slice(0, used[i].share.cards)),
+    quiz: parts.flatMap((p, i) => p.quiz.slice(0, used[i].share.questions)),
+  };
+  const usage = finishUsage(meta.usage, started);
+
+  const files = await exportDeck(deck);
+  await appendLedger({ date: new Date().toISOString(), kind: "study", type, model: getModelId(), slug, url, ...usage });
+  await renderStored(slug);
+  console.error(`  ${deck.cards.length} cards, ${deck.quiz.length} questions`);
+  return { slug, title, deck, files, usage };
+}
+
+/** Regenerate a stored entry's HTML page from its summary markdown. Returns the HTML path. */
+export async function renderStored(slug: string): Promise<string> {
+  const text = await readSummaryFile(slug);
+  if (!text) throw new Error(`No summary found for ${slug}`);
+  const { fields, body } = parseFrontmatter(text);
+  const type = (fields.type || "web") as Meta["type"];
+  const structured = (await readStructured(slug)) ?? undefined;
+  // Markdown summaries keep only flags for failed quotes; the badges and closest passages are
+  // worked out again from the saved source
+  const article = structured ? null : await readArticleFile(fields.translated_from || slug);
+  const quotes = article ? verifyMarkdownQuotes(body, quoteSource(type, parseFrontmatter(article).body)).quotes : undefined;
+  const html = generateHTML({
+    title: fields.title || slug,
+    url: fields.url || "",
+    type,
+    date: (fields.date || new Date().toISOString()).slice(0, 10),
+    words: parseInt(fields.words || "0") || 0,
+    pages: fields.pages ? parseInt(fields.pages) : undefined,
+    version: fields.version ? parseInt(fields.version) : undefined,
+    style: fields.style,
+    lang: fields.lang,
+    sourceLang: fields.source_lang,
+    translatedFrom: fields.translated_from,
+    channel: fields.channel,
+    published: fields.published,
+    duration: fields.duration ? parseInt(fields.duration) : undefined,
+    chapters: parseList(fields.chapters).length || undefined,
+    format: fields.format,
+    sources: await sourceLinks(parseList(fields.sources)),
+    changes: (await readLatestChanges(slug)) ?? undefined,
+    quiz: (await Bun.file(studyPaths(slug).html).exists()) ? `${slug}.quiz.html` : undefined,
+    summary: body,
+    structured,
+    quotes,
+  });
+  return saveHTML(slug, html);
 }
 
 export async function runDiscuss(slug?: string, url?: string, forceNew?: boolean): Promise<void> {
   let target = slug;
   if (!target && url) {
-    // Resolve file:// summary URLs back to original source
-    const sourceUrl = await resolveSourceUrl(url);
-    target = await findByUrl(sourceUrl || url) || undefined;
+    // A file:// summary page names its entry; anything else is a source URL
+    target = (await resolveSlug(url)) || undefined;
     if (!target) throw new Error("This page hasn't been summarized yet");
   }
   if (!target) {
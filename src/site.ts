@@ -1,5 +1,24 @@
-const UA =
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36";
+import { gunzipSync } from "node:zlib";
+import { mapLimit } from "./chunk";
+import { withRetry } from "./retry";
+import { fetchRobots } from "./robots";
+import { UA } from "./ua";
+
+// Parallel page fetches while crawling a site
+const FETCH_CONCURRENCY = 8;
+// Pages fetched per site by default; sitemaps with more keep the most recently modified
+const DEFAULT_SITE_PAGES = 500;
+// Sitemap index nesting followed, and sitemap files read per site
+const SITEMAP_DEPTH = 3;
+const MAX_SITEMAPS = 50;
+// Largest sitemap file read, compressed or not: the sitemap protocol's own limit
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+// Longest Crawl-delay honored, in seconds
+const MAX_CRAWL_DELAY = 30;
+// Under a Crawl-delay the default page cap shrinks so fetching takes about this long (seconds),
+// but never below MIN_DELAYED_PAGES
+const CRAWL_DELAY_BUDGET = 600;
+const MIN_DELAYED_PAGES = 10;
 
 export interface SitePage {
   url: string;
@@ -13,6 +32,18 @@ export interface SiteResult {
   title: string;
   pages: SitePage[];
   totalWords: number;
+  /** Pages that still failed to fetch after retries. */
+  failed: { url: string; error: string }[];
+}
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "");
+  return n > 0 ? n : fallback;
+}
+
+/** 75 → "75s", 1200 → "20 min". */
+function roughDuration(seconds: number): string {
+  return seconds >= 90 ? `${Math.round(seconds / 60)} min` : `${Math.round(seconds)}s`;
 }
 
 /** Extract root URL from any page on the site. */
@@ -41,7 +72,7 @@ function htmlToText(html: string): string {
 }
 
 /** Extract page title from HTML. */
-function extractTitle(html: string): string {
+export function extractTitle(html: string): string {
   const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
   if (titleMatch) return titleMatch[1].trim();
   const h1Match = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
@@ -49,26 +80,120 @@ function extractTitle(html: string): string {
   return "Untitled";
 }
 
-/** Try to fetch sitemap.xml and parse page URLs. */
-async function fetchSitemap(rootUrl: string): Promise<string[] | null> {
-  try {
-    const resp = await fetch(`${rootUrl}/sitemap.xml`, {
-      headers: { "User-Agent": UA },
-    });
-    if (!resp.ok) return null;
-    const xml = await resp.text();
-    if (!xml.includes("<urlset")) return null;
-
-    const urls: string[] = [];
-    const regex = /<loc>([^<]+)<\/loc>/g;
-    let match;
-    while ((match = regex.exec(xml)) !== null) {
-      urls.push(match[1].trim());
+interface SitemapEntry {
+  url: string;
+  /** <lastmod> as ms since the epoch, when given. */
+  lastmod?: number;
+}
+
+function xmlText(s: string): string {
+  return s
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function tagText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? xmlText(match[1]) : undefined;
+}
+
+/**
+ * Fetch one sitemap file as text, gunzipping .xml.gz files (served as raw gzip, not
+ * Content-Encoding). Files over MAX_SITEMAP_BYTES, before or after decompression, are refused.
+ */
+async function fetchSitemapFile(url: string): Promise<string | null> {
+  const resp = await fetch(url, { headers: { "User-Agent": UA } });
+  if (!resp.ok) return null;
+  const tooLarge = new Error(`larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB`);
+  if (parseInt(resp.headers.get("content-length") ?? "0") > MAX_SITEMAP_BYTES) throw tooLarge;
+  let bytes = new Uint8Array(await resp.arrayBuffer());
+  if (bytes.length > MAX_SITEMAP_BYTES) throw tooLarge;
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    try {
+      bytes = gunzipSync(bytes, { maxOutputLength: MAX_SITEMAP_BYTES });
+    } catch (err: any) {
+      throw err.code === "ERR_BUFFER_TOO_LARGE" ? tooLarge : err;
+    }
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Page URLs from the site's sitemaps: those declared in robots.txt, else /sitemap.xml. Sitemap
+ * indexes are followed up to SITEMAP_DEPTH levels and MAX_SITEMAPS files. Child sitemaps and
+ * pages on another host than the site's are ignored. Returns null when no sitemap lists any page.
+ */
+async function fetchSitemap(rootUrl: string, declared: string[]): Promise<{ entries: SitemapEntry[]; files: number } | null> {
+  const queue = (declared.length ? declared : [`${rootUrl}/sitemap.xml`]).map((url) => ({ url, depth: 0 }));
+  const seen = new Set<string>();
+  const entries = new Map<string, SitemapEntry>();
+  let files = 0;
+  let offsite = 0;
+  const host = new URL(rootUrl).host;
+  // A <loc> resolved against its sitemap, or null when it's invalid or on another host
+  const onSite = (loc: string, base: string): string | null => {
+    try {
+      const resolved = new URL(loc, base);
+      if (resolved.host === host) return resolved.toString();
+    } catch {
+      return null;
     }
-    return urls.length > 0 ? urls : null;
-  } catch {
+    offsite++;
     return null;
+  };
+
+  while (queue.length && seen.size < MAX_SITEMAPS) {
+    const { url, depth } = queue.shift()!;
+    if (seen.has(url)) continue;
+    seen.add(url);
+    let xml: string | null;
+    try {
+      xml = await fetchSitemapFile(url);
+    } catch (err: any) {
+      console.error(`  Skipping sitemap ${url}: ${err.message}`);
+      continue;
+    }
+    if (!xml) continue;
+
+    if (xml.includes("<sitemapindex")) {
+      files++;
+      if (depth >= SITEMAP_DEPTH) continue;
+      for (const [, block] of xml.matchAll(/<sitemap\b[^>]*>([\s\S]*?)<\/sitemap>/g)) {
+        const loc = tagText(block, "loc");
+        const child = loc && onSite(loc, url);
+        if (child) queue.push({ url: child, depth: depth + 1 });
+      }
+    } else if (xml.includes("<urlset")) {
+      files++;
+      for (const [, block] of xml.matchAll(/<url\b[^>]*>([\s\S]*?)<\/url>/g)) {
+        const tag = tagText(block, "loc");
+        const loc = tag && onSite(tag, url);
+        if (!loc || entries.has(loc)) continue;
+        const lastmod = Date.parse(tagText(block, "lastmod") ?? "");
+        entries.set(loc, { url: loc, lastmod: isNaN(lastmod) ? undefined : lastmod });
+      }
+    }
   }
+  if (offsite) console.error(`  Ignoring ${offsite} sitemap entries on other hosts than ${host}`);
+  return entries.size > 0 ? { entries: [...entries.values()], files } : null;
+}
+
+/**
+ * At most `limit` pages, the most recently modified first (undated ones after, in sitemap order).
+ * The pages kept stay in sitemap order, which follows the site's structure.
+ */
+function newestPages(entries: SitemapEntry[], limit: number): SitemapEntry[] {
+  if (entries.length <= limit) return entries;
+  const ranked = entries
+    .map((entry, i) => ({ entry, i }))
+    .sort((a, b) => (b.entry.lastmod ?? -Infinity) - (a.entry.lastmod ?? -Infinity) || a.i - b.i);
+  const kept = new Set(ranked.slice(0, limit).map((r) => r.entry));
+  return entries.filter((entry) => kept.has(entry));
 }
 
 /** Crawl internal links from the root page as sitemap fallback. */
@@ -107,6 +232,7 @@ async function fetchPage(url: string): Promise<SitePage> {
   const resp = await fetch(url, {
     headers: { "User-Agent": UA, Accept: "text/html" },
   });
+  if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
   const html = await resp.text();
   const title = extractTitle(html);
   const content = htmlToText(html);
@@ -168,24 +294,80 @@ export async function fetchSite(url: string): Promise<SiteResult> {
   const rootUrl = getRootUrl(url);
 
   console.error(`  Discovering pages...`);
+  const robots = await fetchRobots(rootUrl);
+
+  // A Crawl-delay means one page at a time, so fewer pages unless ELS_SITE_PAGES says otherwise
+  const delay = Math.min(robots.crawlDelay ?? 0, MAX_CRAWL_DELAY);
+  const delayedPages = Math.max(MIN_DELAYED_PAGES, Math.floor(CRAWL_DELAY_BUDGET / delay));
+  const limit = envInt("ELS_SITE_PAGES", delay > 0 ? Math.min(DEFAULT_SITE_PAGES, delayedPages) : DEFAULT_SITE_PAGES);
+  const capNote = delay > 0 && !process.env.ELS_SITE_PAGES ? `ELS_SITE_PAGES, lowered for a ${delay}s Crawl-delay` : "ELS_SITE_PAGES";
 
-  // Try sitemap first, fallback to link crawling
-  let pageUrls = await fetchSitemap(rootUrl);
-  if (pageUrls) {
-    console.error(`  Found ${pageUrls.length} pages via sitemap.xml`);
+  // Try sitemaps first, fallback to link crawling
+  let pageUrls: string[];
+  const sitemap = await fetchSitemap(rootUrl, robots.sitemaps);
+  if (sitemap) {
+    const files = sitemap.files === 1 ? "1 sitemap" : `${sitemap.files} sitemaps`;
+    console.error(`  Found ${sitemap.entries.length} pages in ${files}`);
+    const allowed = sitemap.entries.filter((e) => robots.isAllowed(e.url));
+    const skipped = sitemap.entries.length - allowed.length;
+    if (skipped) console.error(`  Skipping ${skipped} pages disallowed by robots.txt`);
+    if (allowed.length > limit) {
+      console.error(
+        `  Keeping the ${limit} most recently modified pages, skipping ${allowed.length - limit} (${capNote})`,
+      );
+    }
+    pageUrls = newestPages(allowed, limit).map((e) => e.url);
   } else {
     console.error(`  No sitemap found, crawling links...`);
-    pageUrls = await crawlLinks(rootUrl);
-    console.error(`  Found ${pageUrls.length} pages via link crawl`);
+    const links = await crawlLinks(rootUrl);
+    console.error(`  Found ${links.length} pages via link crawl`);
+    const allowed = links.filter((u) => robots.isAllowed(u));
+    const skipped = links.length - allowed.length;
+    if (skipped) console.error(`  Skipping ${skipped} pages disallowed by robots.txt`);
+    if (allowed.length > limit) {
+      console.error(`  Keeping the first ${limit} pages, skipping ${allowed.length - limit} (${capNote})`);
+    }
+    pageUrls = allowed.slice(0, limit);
   }
 
   if (pageUrls.length === 0) {
     throw new Error("No pages found on site");
   }
 
-  // Fetch all pages in parallel
-  console.error(`  Fetching ${pageUrls.length} pages...`);
-  const pages = await Promise.all(pageUrls.map(fetchPage));
+  // Fetch pages in parallel, or one at a time when robots.txt sets a Crawl-delay;
+  // a page that keeps failing is reported and skipped
+  if (delay > 0) {
+    const total = roughDuration((pageUrls.length - 1) * delay);
+    console.error(`  Fetching ${pageUrls.length} pages, ${delay}s apart (Crawl-delay), about ${total}...`);
+  } else {
+    console.error(`  Fetching ${pageUrls.length} pages...`);
+  }
+  // Every request waits its turn, retries included
+  let nextFetch = 0;
+  const pace = async () => {
+    const now = Date.now();
+    const at = Math.max(now, nextFetch);
+    nextFetch = at + delay * 1000;
+    if (at > now) await Bun.sleep(at - now);
+  };
+  const failed: SiteResult["failed"] = [];
+  const fetched = await mapLimit(pageUrls, delay > 0 ? 1 : FETCH_CONCURRENCY, async (pageUrl) => {
+    try {
+      return await withRetry(`Fetching ${pageUrl}`, async () => {
+        if (delay > 0) await pace();
+        return fetchPage(pageUrl);
+      });
+    } catch (err: any) {
+      failed.push({ url: pageUrl, error: err.message });
+      return null;
+    }
+  });
+  const pages = fetched.filter((p): p is SitePage => p !== null);
+  if (failed.length) {
+    console.error(`  ${failed.length} of ${pageUrls.length} pages failed to fetch:`);
+    for (const f of failed) console.error(`    ${f.url}: ${f.error}`);
+  }
+  if (pages.length === 0) throw new Error("Could not fetch any pages from the site");
 
   // Strip duplicated nav/sidebar text
   const cleaned = stripCommonText(pages);
@@ -205,5 +387,6 @@ export async function fetchSite(url: string): Promise<SiteResult> {
     title,
     pages: meaningful,
     totalWords,
+    failed,
   };
 }
@@ -0,0 +1,13 @@
+import { expect, test } from "bun:test";
+import { generateSlug } from "./storage";
+
+test("generateSlug hands concurrent callers different slugs", async () => {
+  const slugs = await Promise.all(Array.from({ length: 4 }, () => generateSlug("Same Title", "https://example.com/a")));
+  expect(new Set(slugs).size).toBe(4);
+  expect(slugs.map((s) => s.replace(/^\d{4}-\d{2}-\d{2}_/, "")).sort()).toEqual([
+    "same-title",
+    "same-title-2",
+    "same-title-3",
+    "same-title-4",
+  ]);
+});
@@ -1,58 +1,35 @@
-import { mkdir, readdir, readFile, stat } from "node:fs/promises";
+import { mkdir, readdir, rm, unlink } from "node:fs/promises";
 import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { HOME, ARTICLES_DIR, SUMMARIES_DIR, HTML_DIR, VERSIONS_DIR, STUDY_DIR } from "./paths";
+import { frontmatter, parseFrontmatter, type Meta } from "./frontmatter";
+import { recordFile, lookupUrl, lookupTranslation, latestEntry, getEntry, removeEntry } from "./catalog";
+import { unwatch } from "./watch";
+import { toFileUrl } from "./local";
+import type { StructuredSummary } from "./structured";
+import type { StudyDeck } from "./study";
 
-if (!process.env.HOME) throw new Error("HOME environment variable not set");
-export const HOME = join(process.env.HOME, ".elsummariz00r");
-const ARTICLES_DIR = join(HOME, "articles");
-const SUMMARIES_DIR = join(HOME, "summaries");
-const HTML_DIR = join(HOME, "html");
-
-/** Normalize a URL for dedup comparison. YouTube → video ID, web → strip trailing slash + fragment. */
-function normalizeUrl(url: string): string {
-  // YouTube: normalize to just the video ID
-  const ytMatch = url.match(
-    /(?:youtube\.com\/(?:watch\?.*v=|shorts\/|live\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/,
-  );
-  if (ytMatch) return `yt:${ytMatch[1]}`;
+export { HOME };
+export type { Meta };
 
-  // Web: strip fragment and trailing slash
-  try {
-    const u = new URL(url);
-    u.hash = "";
-    let normalized = u.toString();
-    if (normalized.endsWith("/")) normalized = normalized.slice(0, -1);
-    return normalized;
-  } catch {
-    return url;
-  }
+/**
+ * Find an existing summary by URL. Optionally filter by type, style and summary language
+ * (translations only match when a language is given). Returns slug if found.
+ */
+export async function findByUrl(
+  url: string,
+  type?: Meta["type"],
+  style?: string,
+  lang?: string,
+): Promise<string | null> {
+  const entry = await lookupUrl(url, type, style, lang);
+  return entry?.slug ?? null;
 }
 
-/** Find an existing summary by URL. Optionally filter by type. Returns slug if found. */
-export async function findByUrl(url: string, type?: Meta["type"]): Promise<string | null> {
-  const needle = normalizeUrl(url);
-  try {
-    const files = await readdir(ARTICLES_DIR);
-    const mds = files.filter((f) => f.endsWith(".md"));
-    for (const file of mds) {
-      const text = await readFile(join(ARTICLES_DIR, file), "utf-8");
-      // Parse the url from frontmatter
-      const urlMatch = text.match(/^url:\s*"?(.+?)"?\s*$/m);
-      if (urlMatch) {
-        const storedUrl = urlMatch[1];
-        if (normalizeUrl(storedUrl) === needle) {
-          // If type filter specified, check it matches
-          if (type) {
-            const typeMatch = text.match(/^type:\s*(.+)$/m);
-            if (typeMatch && typeMatch[1].trim() !== type) continue;
-          }
-          return file.replace(".md", "");
-        }
-      }
-    }
-  } catch {
-    // No articles dir yet
-  }
-  return null;
+/** Slug of an existing translation of `slug` into `lang`. */
+export async function findTranslation(slug: string, lang: string): Promise<string | null> {
+  const entry = await lookupTranslation(slug, lang);
+  return entry?.slug ?? null;
 }
 
 export async function ensureDirs(): Promise<void> {
@@ -61,35 +38,108 @@ export async function ensureDirs(): Promise<void> {
   await mkdir(HTML_DIR, { recursive: true });
 }
 
-export function generateSlug(title: string): string {
-  const date = new Date().toISOString().slice(0, 10);
-  const sanitized = title
+const MAX_STEM = 60;
+
+// Letters NFKD doesn't decompose into ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: "ss", æ: "ae", œ: "oe", ø: "o", đ: "d", ð: "d", ł: "l", þ: "th", ı: "i",
+};
+
+/** Lowercase ASCII kebab-case. Accented Latin is transliterated; other scripts are dropped. */
+function kebab(text: string): string {
+  return text
     .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, "")
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[ßæœøđðłþı]/g, (c) => TRANSLITERATIONS[c])
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .trim()
     .replace(/\s+/g, "-")
     .replace(/-+/g, "-")
-    .slice(0, 60)
-    .replace(/-$/, "");
-  return `${date}_${sanitized}`;
+    .slice(0, MAX_STEM)
+    .replace(/^-|-$/g, "");
 }
 
-interface Meta {
-  title: string;
-  url: string;
-  type: "web" | "youtube" | "site";
-  words: number;
+/** Stem from the URL when the title has too little ASCII to go on, e.g. "nhk-or-jp-k10014". */
+function urlStem(url: string): string {
+  const videoId = url.match(/(?:[?&]v=|youtu\.be\/|shorts\/|live\/)([a-zA-Z0-9_-]{11})/)?.[1];
+  if (videoId) return `youtube-${kebab(videoId)}`;
+  try {
+    const u = new URL(url);
+    const host = u.hostname.replace(/^www\./, "");
+    const segment = u.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((s) => {
+        try {
+          return decodeURIComponent(s);
+        } catch {
+          return s;
+        }
+      })
+      .at(-1)
+      ?.replace(/\.[a-z0-9]+$/i, "");
+    return kebab(`${host} ${segment ?? ""}`);
+  } catch {
+    return "";
+  }
+}
+
+// Slugs handed out by generateSlug in this process. Their files are written later, so without
+// this, concurrent runs (playlist videos) could pick the same free slug
+const reservedSlugs = new Set<string>();
+
+async function slugTaken(slug: string): Promise<boolean> {
+  const files = [
+    join(ARTICLES_DIR, `${slug}.md`),
+    join(SUMMARIES_DIR, `${slug}.md`),
+    join(SUMMARIES_DIR, `${slug}.json`),
+    join(HTML_DIR, `${slug}.html`),
+  ];
+  for (const file of files) {
+    if (await Bun.file(file).exists()) return true;
+  }
+  return (await getEntry(slug)) !== null;
+}
+
+/**
+ * Build a new, unused slug: `YYYY-MM-DD_<stem>`. The stem comes from the title, falling back to
+ * the URL and then a hash for titles in non-Latin scripts. A non-default style and a
+ * translation's language are appended (`..._title-technical-de`). Collisions get a numeric suffix.
+ * The slug is reserved for this process, so concurrent callers never get the same one.
+ */
+export async function generateSlug(
+  title: string,
+  url = "",
+  style?: string,
+  lang?: string,
+): Promise<string> {
+  const date = new Date().toISOString().slice(0, 10);
+  let stem = kebab(title);
+  if (stem.replace(/-/g, "").length < 3) stem = urlStem(url) || stem;
+  if (!stem) {
+    const hash = createHash("sha256").update(url || title).digest("hex");
+    stem = `untitled-${hash.slice(0, 8)}`;
+  }
+  const suffix = [style !== "default" && style, lang].filter(Boolean).join("-");
+  if (suffix) {
+    stem = `${stem.slice(0, MAX_STEM - suffix.length - 1).replace(/-$/, "")}-${suffix}`;
+  }
+
+  for (let n = 1; ; n++) {
+    const suffix = n === 1 ? "" : `-${n}`;
+    const slug = `${date}_${suffix ? stem.slice(0, MAX_STEM - suffix.length).replace(/-$/, "") : stem}${suffix}`;
+    if (reservedSlugs.has(slug)) continue;
+    // Reserve before checking the disk: the check awaits, and another call may try this slug meanwhile
+    reservedSlugs.add(slug);
+    if (!(await slugTaken(slug))) return slug;
+  }
 }
 
-function frontmatter(meta: Meta): string {
-  // Escape backslashes first, then quotes, to avoid double-escaping
-  const safeTitle = meta.title.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-  return `---
-title: "${safeTitle}"
-url: "${meta.url}"
-date: ${new Date().toISOString()}
-type: ${meta.type}
-words: ${meta.words}
----`;
+/** Fingerprint of an article's text. Whitespace is collapsed so reflowed but identical text hashes the same. */
+export function contentHash(content: string): string {
+  const normalized = content.replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
 }
 
 export async function saveArticle(
@@ -98,20 +148,193 @@ export async function saveArticle(
   meta: Meta,
 ): Promise<string> {
   const path = join(ARTICLES_DIR, `${slug}.md`);
-  await Bun.write(path, `${frontmatter(meta)}\n\n${content}`);
+  await Bun.write(path, `${frontmatter({ ...meta, contentHash: contentHash(content) })}\n\n${content}`);
+  await recordFile(slug, "article", path, meta, content);
   return path;
 }
 
+/**
+ * Write the current summary for a slug and append it to the slug's revision history.
+ * The summary file always holds the newest version; versions/<slug>/<n>.md keeps every one.
+ * A structured summary is written to summaries/<slug>.json alongside; without one, a stale
+ * JSON file from an earlier version is removed.
+ */
 export async function saveSummary(
   slug: string,
   summary: string,
   meta: Meta,
+  structured?: StructuredSummary,
 ): Promise<string> {
   const path = join(SUMMARIES_DIR, `${slug}.md`);
-  await Bun.write(path, `${frontmatter(meta)}\n\n${summary}`);
+  let latest = (await listVersions(slug)).at(-1)?.version ?? 0;
+
+  // Entries summarized before revisions existed: archive the current summary as v1 first
+  if (latest === 0) {
+    const previous = await readSummaryFile(slug);
+    if (previous) {
+      const { fields, body } = parseFrontmatter(previous);
+      await writeVersion(slug, 1, body, {
+        title: fields.title || meta.title,
+        url: fields.url || meta.url,
+        type: (fields.type as Meta["type"]) || meta.type,
+        words: parseInt(fields.words || "0") || 0,
+        pages: fields.pages ? parseInt(fields.pages) : undefined,
+        style: fields.style,
+        lang: fields.lang,
+        sourceLang: fields.source_lang,
+        translatedFrom: fields.translated_from,
+        model: fields.model,
+        prompt: fields.prompt,
+      }, fields.date);
+      latest = 1;
+    }
+  }
+
+  const version = latest + 1;
+  const versioned = { ...meta, version };
+  const date = new Date().toISOString();
+  await Bun.write(path, `${frontmatter(versioned, date)}\n\n${summary}`);
+  await writeVersion(slug, version, summary, versioned, date);
+  const jsonPath = join(SUMMARIES_DIR, `${slug}.json`);
+  if (structured) {
+    await Bun.write(jsonPath, JSON.stringify(structured, null, 2) + "\n");
+  } else {
+    await unlink(jsonPath).catch(() => {});
+  }
+  await recordFile(slug, "summary", path, meta, summary);
+  return path;
+}
+
+export interface SummaryVersion {
+  version: number;
+  date: string;
+  model: string;
+  prompt: string;
+  path: string;
+}
+
+async function writeVersion(
+  slug: string,
+  version: number,
+  summary: string,
+  meta: Meta,
+  date?: string,
+): Promise<void> {
+  const dir = join(VERSIONS_DIR, slug);
+  await mkdir(dir, { recursive: true });
+  await Bun.write(
+    join(dir, `${version}.md`),
+    `${frontmatter({ ...meta, version }, date)}\n\n${summary}`,
+  );
+}
+
+/** All stored revisions of a slug's summary, oldest first. */
+export async function listVersions(slug: string): Promise<SummaryVersion[]> {
+  const dir = join(VERSIONS_DIR, slug);
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((f) => /^\d+\.md$/.test(f));
+  } catch {
+    return [];
+  }
+  const versions = await Promise.all(
+    files.map(async (file) => {
+      const path = join(dir, file);
+      const { fields } = parseFrontmatter(await Bun.file(path).text());
+      return {
+        version: parseInt(file),
+        date: fields.date || "",
+        model: fields.model || "unknown",
+        prompt: fields.prompt || "unknown",
+        path,
+      };
+    }),
+  );
+  return versions.sort((a, b) => a.version - b.version);
+}
+
+/** Body of one summary revision, without frontmatter. */
+export async function readVersion(slug: string, version: number): Promise<string | null> {
+  try {
+    const text = await Bun.file(join(VERSIONS_DIR, slug, `${version}.md`)).text();
+    return parseFrontmatter(text).body;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a "what changed" summary for the source change that produced summary `version`,
+ * as versions/<slug>/<version>.changes.md next to that version.
+ */
+export async function saveChanges(slug: string, version: number, changes: string, meta: Meta): Promise<string> {
+  const dir = join(VERSIONS_DIR, slug);
+  await mkdir(dir, { recursive: true });
+  const path = join(dir, `${version}.changes.md`);
+  await Bun.write(path, `${frontmatter({ ...meta, version })}\n\n${changes}`);
   return path;
 }
 
+/** The most recent "what changed" summary for a slug, with the version it led to. */
+export async function readLatestChanges(
+  slug: string,
+): Promise<{ version: number; date: string; summary: string } | null> {
+  let files: string[];
+  try {
+    files = (await readdir(join(VERSIONS_DIR, slug))).filter((f) => /^\d+\.changes\.md$/.test(f));
+  } catch {
+    return null;
+  }
+  const version = Math.max(...files.map((f) => parseInt(f)));
+  if (!Number.isFinite(version)) return null;
+  const { fields, body } = parseFrontmatter(
+    await Bun.file(join(VERSIONS_DIR, slug, `${version}.changes.md`)).text(),
+  );
+  return { version, date: fields.date || "", summary: body };
+}
+
+export interface StudyFiles {
+  deck: string;
+  tsv: string;
+  markdown: string;
+  html: string;
+}
+
+/**
+ * Save a study deck with its exports: study/<slug>.json, the Anki TSV and Markdown deck next to
+ * it, and the quiz page as html/<slug>.quiz.html beside the summary page.
+ */
+export async function saveStudy(
+  slug: string,
+  deck: StudyDeck,
+  exports: { tsv: string; markdown: string; html: string },
+): Promise<StudyFiles> {
+  await mkdir(STUDY_DIR, { recursive: true });
+  const files = studyPaths(slug);
+  await Bun.write(files.deck, JSON.stringify(deck, null, 2) + "\n");
+  await Bun.write(files.tsv, exports.tsv);
+  await Bun.write(files.markdown, exports.markdown);
+  await Bun.write(files.html, exports.html);
+  return files;
+}
+
+export function studyPaths(slug: string): StudyFiles {
+  return {
+    deck: join(STUDY_DIR, `${slug}.json`),
+    tsv: join(STUDY_DIR, `${slug}.tsv`),
+    markdown: join(STUDY_DIR, `${slug}.md`),
+    html: join(HTML_DIR, `${slug}.quiz.html`),
+  };
+}
+
+export async function readStudyDeck(slug: string): Promise<StudyDeck | null> {
+  try {
+    return await Bun.file(studyPaths(slug).deck).json();
+  } catch {
+    return null;
+  }
+}
+
 export async function saveHTML(slug: string, html: string): Promise<string> {
   const path = join(HTML_DIR, `${slug}.html`);
   await Bun.write(path, html);
@@ -119,45 +342,87 @@ export async function saveHTML(slug: string, html: string): Promise<string> {
 }
 
 export async function getLatestSlug(): Promise<string | null> {
+  const entry = await latestEntry();
+  return entry?.slug ?? null;
+}
+
+export async function readSummaryFile(slug: string): Promise<string | null> {
   try {
-    const files = await readdir(SUMMARIES_DIR);
-    const mds = files.filter((f) => f.endsWith(".md"));
-    if (mds.length === 0) return null;
-    // Sort by modification time, most recent first
-    const withMtime = await Promise.all(
-      mds.map(async (f) => ({
-        name: f,
-        mtime: (await stat(join(SUMMARIES_DIR, f))).mtimeMs,
-      })),
-    );
-    withMtime.sort((a, b) => b.mtime - a.mtime);
-    return withMtime[0].name.replace(".md", "");
+    const path = join(SUMMARIES_DIR, `${slug}.md`);
+    return await Bun.file(path).text();
   } catch {
     return null;
   }
 }
 
-export async function readSummaryFile(slug: string): Promise<string | null> {
+/** The structured form of a slug's current summary, if it was summarized with one. */
+export async function readStructured(slug: string): Promise<StructuredSummary | null> {
   try {
-    const path = join(SUMMARIES_DIR, `${slug}.md`);
+    return await Bun.file(join(SUMMARIES_DIR, `${slug}.json`)).json();
+  } catch {
+    return null;
+  }
+}
+
+export async function readArticleFile(slug: string): Promise<string | null> {
+  try {
+    const path = join(ARTICLES_DIR, `${slug}.md`);
     return await Bun.file(path).text();
   } catch {
     return null;
   }
 }
 
-/** If URL is a file:// pointing to our HTML dir, resolve back to the original source URL. */
-export async function resolveSourceUrl(url: string): Promise<string | null> {
+/**
+ * Delete an entry's article, summary, HTML, study deck and revision history together, and stop
+ * watching it. Returns the paths that were removed.
+ */
+export async function deleteEntry(slug: string): Promise<string[]> {
+  const paths = [
+    join(ARTICLES_DIR, `${slug}.md`),
+    join(SUMMARIES_DIR, `${slug}.md`),
+    join(SUMMARIES_DIR, `${slug}.json`),
+    join(HTML_DIR, `${slug}.html`),
+    ...Object.values(studyPaths(slug)),
+  ];
+  const removed: string[] = [];
+  for (const path of paths) {
+    try {
+      await unlink(path);
+      removed.push(path);
+    } catch {
+      // Already gone
+    }
+  }
+  await rm(join(VERSIONS_DIR, slug), { recursive: true, force: true });
+  await removeEntry(slug);
+  await unwatch(slug);
+  return removed;
+}
+
+/** The slug of a file:// URL pointing into our HTML dir, or null. */
+function htmlSlug(url: string): string | null {
   const htmlPrefix = `file://${HTML_DIR}/`;
   if (!url.startsWith(htmlPrefix)) return null;
 
   const slug = url.slice(htmlPrefix.length).replace(".html", "");
   if (slug.includes("/") || slug.includes("\\")) return null;
-  try {
-    const text = await readFile(join(ARTICLES_DIR, `${slug}.md`), "utf-8");
-    const urlMatch = text.match(/^url:\s*"?(.+?)"?\s*$/m);
-    return urlMatch?.[1] || null;
-  } catch {
-    return null;
-  }
+  return slug;
+}
+
+/** If URL is a file:// pointing to our HTML dir, resolve back to the original source URL. */
+export async function resolveSourceUrl(url: string): Promise<string | null> {
+  const slug = htmlSlug(url);
+  if (!slug) return null;
+  const entry = await getEntry(slug);
+  return entry?.url || null;
+}
+
+/** Resolve a slug, source URL, local file path, or file:// summary URL to a slug in the library. */
+export async function resolveSlug(ref: string): Promise<string | null> {
+  if (!ref.includes("/") && (await getEntry(ref))) return ref;
+  // A summary page names its own entry, which may be a translation of another
+  const slug = htmlSlug(ref);
+  if (slug && (await getEntry(slug))) return slug;
+  return findByUrl(await toFileUrl(ref));
 }
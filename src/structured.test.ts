@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { parseStructured, renderPartial, structuredToMarkdown, type StructuredSummary } from "./structured";
+
+const VALID = {
+  tldr: " The bridge repairs are delayed. ",
+  keyPoints: ["Repairs postponed again ", "Budget revisited in spring"],
+  quotes: [{ text: "“We can't keep postponing”", attribution: " Mayor " }, { text: "Avoid the east lane" }],
+  sections: [{ title: "Traffic", url: "", summary: "East lane closed." }],
+  tags: ["Infrastructure", "infrastructure", " budget "],
+};
+
+describe("parseStructured", () => {
+  test("accepts a valid reply and cleans it up", () => {
+    const result = parseStructured(JSON.stringify(VALID));
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        tldr: "The bridge repairs are delayed.",
+        keyPoints: ["Repairs postponed again", "Budget revisited in spring"],
+        quotes: [{ text: "We can't keep postponing", attribution: "Mayor" }, { text: "Avoid the east lane" }],
+        sections: [{ title: "Traffic", summary: "East lane closed." }],
+        tags: ["infrastructure", "budget"],
+      },
+    });
+  });
+
+  test("tolerates code fences and prose around the JSON", () => {
+    const reply = "Here you go:\n```json\n" + JSON.stringify(VALID) + "\n```";
+    expect(parseStructured(reply).ok).toBe(true);
+  });
+
+  test("defaults missing quotes, sections and tags to empty", () => {
+    const result = parseStructured(JSON.stringify({ tldr: "Short.", keyPoints: ["One"] }));
+    expect(result.ok && result.value).toEqual({ tldr: "Short.", keyPoints: ["One"], quotes: [], sections: [], tags: [] });
+  });
+
+  test("lists every problem with an invalid reply", () => {
+    const result = parseStructured(
+      JSON.stringify({ tldr: "", keyPoints: ["ok", 3], quotes: [{ attribution: 1 }], sections: {}, tags: [1] }),
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        `"tldr" must be a non-empty string`,
+        `every item of "keyPoints" must be a non-empty string`,
+        "quotes[0].text must be a non-empty string",
+        "quotes[0].attribution must be a string when present",
+        `"sections" must be an array`,
+        `"tags" must be an array of strings`,
+      ],
+    });
+  });
+
+  test("rejects replies that aren't a JSON object", () => {
+    expect(parseStructured("no json here")).toEqual({ ok: false, errors: ["Not valid JSON: reply contains no JSON object"] });
+    expect(parseStructured("[1, 2]")).toMatchObject({ ok: false });
+    expect(parseStructured("{ tldr: oops }")).toMatchObject({ ok: false });
+  });
+});
+
+describe("rendering", () => {
+  const summary: StructuredSummary = {
+    tldr: "Delayed.",
+    keyPoints: ["Postponed"],
+    quotes: [{ text: "Keep going", attribution: "Mayor", check: { status: "approximate", score: 0.8 } }],
+    sections: [],
+    tags: ["budget"],
+  };
+
+  test("structuredToMarkdown flags quotes that didn't verify", () => {
+    expect(structuredToMarkdown(summary, "web")).toBe(
+      `**TL;DR:** Delayed.\n\n## Key points\n\n- Postponed\n\n## Notable quotes\n\n> "Keep going" — Mayor *(approximate)*\n\n*Tags: budget*`,
+    );
+  });
+
+  test("renderPartial shows what has streamed so far", () => {
+    expect(renderPartial(`{"tldr": "Delayed.", "keyPoints": ["Postponed", "Bud`, "web")).toBe(
+      "**TL;DR:** Delayed.\n\n## Key points\n\n- Postponed\n- Bud",
+    );
+    expect(renderPartial(`{"tldr": "Delayed.", "quotes": [{"text": "Keep go`, "web")).toBe(
+      `**TL;DR:** Delayed.\n\n## Notable quotes\n\n> "Keep go`,
+    );
+    expect(renderPartial("Thinking", "web")).toBe("");
+  });
+});
@@ -0,0 +1,260 @@
+import type { SummaryType } from "./prompts";
+import type { QuoteCheck } from "./quotes";
+import { isTranscriptType } from "./transcript";
+
+export interface Quote {
+  text: string;
+  /** Who said or wrote it, when the source makes that clear. */
+  attribution?: string;
+  /** Result of matching the quote against the stored source text. */
+  check?: QuoteCheck;
+}
+
+export interface Section {
+  title: string;
+  url?: string;
+  summary: string;
+}
+
+/** A summary as data. Stored as summaries/<slug>.json next to the rendered markdown. */
+export interface StructuredSummary {
+  tldr: string;
+  keyPoints: string[];
+  quotes: Quote[];
+  /** Per-page or per-area breakdown; sites only. */
+  sections: Section[];
+  tags: string[];
+}
+
+const MAX_KEY_POINTS = 12;
+const MAX_TAGS = 8;
+
+/** Output contract appended to the style's system prompt when asking for structured output. */
+export function structuredInstructions(type: SummaryType, chapters = false): string {
+  const site = type === "site" || type === "site-merge";
+  const video = isTranscriptType(type);
+  const quoteKind = video ? "notable moments or lines" : "notable quotes";
+  const attribution = video
+    ? "attribution is the speaker if known, followed by the [mm:ss] timestamp"
+    : type.startsWith("pdf")
+      ? `attribution is the author if known, followed by the page (e.g. "Smith, p. 4"), else just the page`
+      : "attribution is the speaker or author if known, else omit it";
+  const sections = site
+    ? "one per major page or area of the site, with the page URL"
+    : chapters
+      ? `one per chapter, in order; title is the chapter heading exactly as given, timestamp included (e.g. "[05:12] Setup"), url is ""`
+      : "always [] for this content";
+  return `
+## Output format
+
+Reply with a single JSON object and nothing else: no code fences, no commentary. This replaces any markdown layout described above; keep the same content, tone and length.
+
+{
+  "tldr": string,          // the 1-2 sentence TL;DR
+  "keyPoints": string[],   // the key points, one per item, in order (max ${MAX_KEY_POINTS})
+  "quotes": [{ "text": string, "attribution": string }],  // ${quoteKind}, verbatim (max 3, may be empty); ${attribution}
+  "sections": [{ "title": string, "url": string, "summary": string }],  // ${sections}
+  "tags": string[]         // 3-${MAX_TAGS} short lowercase topic tags
+}
+
+Strings may use inline markdown (bold, italic, code, links).`;
+}
+
+/** Pull a JSON object out of a model reply, tolerating code fences and stray prose around it. */
+export function extractJson(reply: string): unknown {
+  const text = reply.replace(/^\s*```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/, "");
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) throw new Error("reply contains no JSON object");
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/** A JSON object (not an array or null), with fields still to be checked. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a model reply against the StructuredSummary schema.
+ * Returns the cleaned summary, or the list of problems to send back to the model.
+ */
+export function parseStructured(
+  reply: string,
+): { ok: true; value: StructuredSummary } | { ok: false; errors: string[] } {
+  let data: unknown;
+  try {
+    data = extractJson(reply);
+  } catch (err) {
+    return { ok: false, errors: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+  if (!isRecord(data)) {
+    return { ok: false, errors: ["Top level must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const { tldr, keyPoints, quotes = [], sections = [], tags = [] } = data;
+  if (!isNonEmptyString(tldr)) errors.push(`"tldr" must be a non-empty string`);
+
+  if (!Array.isArray(keyPoints) || keyPoints.length === 0) {
+    errors.push(`"keyPoints" must be a non-empty array of strings`);
+  } else if (!keyPoints.every(isNonEmptyString)) {
+    errors.push(`every item of "keyPoints" must be a non-empty string`);
+  }
+
+  const quoteList: Quote[] = [];
+  if (!Array.isArray(quotes)) {
+    errors.push(`"quotes" must be an array`);
+  } else {
+    quotes.forEach((q: unknown, i: number) => {
+      const { text, attribution } = isRecord(q) ? q : {};
+      if (!isNonEmptyString(text)) errors.push(`quotes[${i}].text must be a non-empty string`);
+      if (attribution != null && typeof attribution !== "string") {
+        errors.push(`quotes[${i}].attribution must be a string when present`);
+      }
+      if (isNonEmptyString(text)) {
+        quoteList.push({
+          text: text.trim().replace(/^["“]|["”]$/g, ""),
+          ...(isNonEmptyString(attribution) ? { attribution: attribution.trim() } : {}),
+        });
+      }
+    });
+  }
+
+  const sectionList: Section[] = [];
+  if (!Array.isArray(sections)) {
+    errors.push(`"sections" must be an array`);
+  } else {
+    sections.forEach((s: unknown, i: number) => {
+      const { title, url, summary } = isRecord(s) ? s : {};
+      if (!isNonEmptyString(title)) errors.push(`sections[${i}].title must be a non-empty string`);
+      if (!isNonEmptyString(summary)) errors.push(`sections[${i}].summary must be a non-empty string`);
+      if (url != null && typeof url !== "string") {
+        errors.push(`sections[${i}].url must be a string when present`);
+      }
+      if (isNonEmptyString(title) && isNonEmptyString(summary)) {
+        sectionList.push({
+          title: title.trim(),
+          ...(isNonEmptyString(url) ? { url: url.trim() } : {}),
+          summary: summary.trim(),
+        });
+      }
+    });
+  }
+
+  const tagsValid = Array.isArray(tags) && tags.every((t: unknown) => typeof t === "string");
+  if (!tagsValid) {
+    errors.push(`"tags" must be an array of strings`);
+  }
+
+  if (errors.length || !isNonEmptyString(tldr) || !Array.isArray(keyPoints) || !tagsValid) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      tldr: tldr.trim(),
+      keyPoints: keyPoints.map((p: string) => p.trim()).slice(0, MAX_KEY_POINTS),
+      quotes: quoteList,
+      sections: sectionList,
+      tags: [...new Set(tags.map((t: string) => t.trim().toLowerCase()).filter(Boolean))].slice(0, MAX_TAGS),
+    },
+  };
+}
+
+/** Render a structured summary as the markdown stored in summaries/<slug>.md (for search, diffs and discussions). */
+export function structuredToMarkdown(s: StructuredSummary, type: SummaryType): string {
+  const parts = [`**TL;DR:** ${s.tldr}`, "## Key points", s.keyPoints.map((p) => `- ${p}`).join("\n")];
+  if (s.sections.length) parts.push(type.startsWith("youtube") ? "## Chapters" : "## Sections");
+  for (const section of s.sections) {
+    parts.push(`### ${section.url ? `[${section.title}](${section.url})` : section.title}`, section.summary);
+  }
+  if (s.quotes.length) {
+    parts.push(isTranscriptType(type) ? "## Notable moments" : "## Notable quotes");
+    for (const q of s.quotes) {
+      const flag = q.check && q.check.status !== "verified" ? ` *(${q.check.status})*` : "";
+      parts.push(`> "${q.text}"${q.attribution ? ` — ${q.attribution}` : ""}${flag}`);
+    }
+  }
+  if (s.tags.length) parts.push(`*Tags: ${s.tags.join(", ")}*`);
+  return parts.join("\n\n");
+}
+
+/**
+ * Best-effort parse of a JSON object that is still being generated: close the open string,
+ * drop a dangling key, close open brackets. Returns null when nothing usable has arrived yet.
+ */
+function parsePartialJson(reply: string): unknown {
+  const start = reply.indexOf("{");
+  if (start === -1) return null;
+  const text = reply.slice(start);
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === "{" || ch === "[") stack.push(ch === "{" ? "}" : "]");
+    else if (ch === "}" || ch === "]") stack.pop();
+  }
+
+  let head = text;
+  if (inString) {
+    if (escaped) head = head.slice(0, -1);
+    else head = head.replace(/((?:^|[^\\])(?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, "$1");
+    head += '"';
+  }
+  const closers = stack.reverse().join("");
+  const attempts = [
+    head.replace(/[,:]\s*$/, ""),
+    // A key whose value hasn't started, or a bare trailing key
+    head.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, ""),
+  ];
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt.replace(/,\s*$/, "") + closers);
+    } catch {
+      // Try the next repair
+    }
+  }
+  return null;
+}
+
+/**
+ * Markdown for a structured reply that is still streaming. Only parts that have started are
+ * rendered, in the order structuredToMarkdown uses, so each render usually extends the last.
+ */
+export function renderPartial(reply: string, type: SummaryType): string {
+  const data = parsePartialJson(reply);
+  if (!isRecord(data)) return "";
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? list.filter((x): x is string => typeof x === "string" && x !== "") : [];
+  const objects = (list: unknown) => (Array.isArray(list) ? list.filter(isRecord) : []);
+
+  const parts: string[] = [];
+  if (typeof data.tldr === "string" && data.tldr) parts.push(`**TL;DR:** ${data.tldr}`);
+  const points = strings(data.keyPoints);
+  if (points.length) parts.push("## Key points", points.map((p) => `- ${p}`).join("\n"));
+  const sections = objects(data.sections).filter((s) => typeof s.title === "string");
+  if (sections.length) parts.push(type.startsWith("youtube") ? "## Chapters" : "## Sections");
+  for (const s of sections) {
+    parts.push(`### ${s.title}`);
+    if (typeof s.summary === "string" && s.summary) parts.push(s.summary);
+  }
+  const quotes = objects(data.quotes).filter((q) => typeof q.text === "string" && q.text);
+  if (quotes.length) parts.push(isTranscriptType(type) ? "## Notable moments" : "## Notable quotes");
+  quotes.forEach((q, i) => {
+    // The last quote may still be growing; close it once its attribution or the next quote starts
+    const closed = typeof q.attribution === "string" || i < quotes.length - 1;
+    parts.push(`> "${q.text}${closed ? '"' : ""}${typeof q.attribution === "string" ? ` — ${q.attribution}` : ""}`);
+  });
+  return parts.join("\n\n");
+}
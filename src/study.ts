@@ -0,0 +1,150 @@
+import { extractJson, isNonEmptyString, isRecord } from "./structured";
+
+export interface Flashcard {
+  question: string;
+  answer: string;
+}
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  /** Index of the correct option. */
+  answer: number;
+  /** Why the answer is right, shown after answering. */
+  explanation?: string;
+}
+
+/** Flashcards and a multiple-choice quiz for one entry. Stored as study/<slug>.json. */
+export interface StudyDeck {
+  cards: Flashcard[];
+  quiz: QuizQuestion[];
+}
+
+const MIN_OPTIONS = 3;
+const MAX_OPTIONS = 5;
+
+/** Output contract appended to the study prompt. */
+export function studyInstructions(cards: number, questions: number): string {
+  return `
+## Output format
+
+Reply with a single JSON object and nothing else: no code fences, no commentary.
+
+{
+  "cards": [{ "question": string, "answer": string }],  // ${cards} flashcards
+  "quiz": [{
+    "question": string,
+    "options": string[],    // ${MIN_OPTIONS}-${MAX_OPTIONS} answer options, exactly one of them correct
+    "answer": number,       // index of the correct option, from 0
+    "explanation": string   // one sentence on why it's right
+  }]                        // ${questions} questions
+}
+
+Strings may use inline markdown (bold, italic, code).`;
+}
+
+/**
+ * Parse and validate a model reply against the StudyDeck schema. `cards` is false for a part of
+ * the content that was asked for quiz questions only.
+ * Returns the deck, or the list of problems to send back to the model.
+ */
+export function parseDeck(reply: string, cards = true): { ok: true; value: StudyDeck } | { ok: false; errors: string[] } {
+  let data: unknown;
+  try {
+    data = extractJson(reply);
+  } catch (err) {
+    return { ok: false, errors: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+  const deck = isRecord(data) ? data : {};
+
+  const errors: string[] = [];
+  const cardList: Flashcard[] = [];
+  if (!Array.isArray(deck.cards) || (cards && deck.cards.length === 0)) {
+    errors.push(cards ? `"cards" must be a non-empty array` : `"cards" must be an array`);
+  } else {
+    deck.cards.forEach((c: unknown, i: number) => {
+      const { question, answer } = isRecord(c) ? c : {};
+      if (!isNonEmptyString(question)) errors.push(`cards[${i}].question must be a non-empty string`);
+      if (!isNonEmptyString(answer)) errors.push(`cards[${i}].answer must be a non-empty string`);
+      if (isNonEmptyString(question) && isNonEmptyString(answer)) {
+        cardList.push({ question: question.trim(), answer: answer.trim() });
+      }
+    });
+  }
+
+  const quiz = deck.quiz ?? [];
+  const questions: QuizQuestion[] = [];
+  if (!Array.isArray(quiz)) {
+    errors.push(`"quiz" must be an array`);
+  } else {
+    quiz.forEach((q: unknown, i: number) => {
+      const { question, options, answer, explanation } = isRecord(q) ? q : {};
+      if (!isNonEmptyString(question)) errors.push(`quiz[${i}].question must be a non-empty string`);
+      const sized = Array.isArray(options) && options.length >= MIN_OPTIONS && options.length <= MAX_OPTIONS;
+      const valid = sized && options.every(isNonEmptyString);
+      const answered = valid && typeof answer === "number" && Number.isInteger(answer) && answer >= 0 && answer < options.length;
+      if (!sized) {
+        errors.push(`quiz[${i}].options must be an array of ${MIN_OPTIONS}-${MAX_OPTIONS} strings`);
+      } else if (!valid) {
+        errors.push(`every item of quiz[${i}].options must be a non-empty string`);
+      } else if (!answered) {
+        errors.push(`quiz[${i}].answer must be the index of one of its options`);
+      }
+      if (explanation != null && typeof explanation !== "string") {
+        errors.push(`quiz[${i}].explanation must be a string when present`);
+      }
+      if (isNonEmptyString(question) && answered) {
+        questions.push({
+          question: question.trim(),
+          options: options.map((o) => o.trim()),
+          answer,
+          ...(isNonEmptyString(explanation) ? { explanation: explanation.trim() } : {}),
+        });
+      }
+    });
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: { cards: cardList, quiz: questions } };
+}
+
+function ankiField(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Tab-separated cards for Anki's File > Import: front, back, tags. The header lines tell Anki
+ * the separator and that fields are HTML (line breaks are <br>).
+ */
+export function deckToTsv(deck: StudyDeck, tags: string[]): string {
+  const tagField = tags.map((t) => t.replace(/\s+/g, "_")).join(" ");
+  const lines = ["#separator:tab", "#html:true", "#tags column:3"];
+  for (const card of deck.cards) {
+    lines.push([ankiField(card.question), ankiField(card.answer), tagField].join("\t"));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** The deck as Markdown: Q/A cards, then the quiz with its answers. */
+export function deckToMarkdown(deck: StudyDeck, meta: { title: string; url: string }): string {
+  const lines = [`# Study deck: ${meta.title}`, "", `Source: ${meta.url}`, "", "## Flashcards", ""];
+  for (const card of deck.cards) {
+    lines.push(`**Q:** ${card.question}`, "", `**A:** ${card.answer}`, "", "---", "");
+  }
+  if (deck.quiz.length) {
+    lines.push("## Quiz", "");
+    deck.quiz.forEach((q, i) => {
+      lines.push(`${i + 1}. ${q.question}`);
+      q.options.forEach((o, j) => lines.push(`   - ${String.fromCharCode(97 + j)}) ${o}`));
+      const answer = `${String.fromCharCode(97 + q.answer)}) ${q.options[q.answer]}`;
+      lines.push("", `   **Answer:** ${answer}`, "");
+      if (q.explanation) lines.push(`   ${q.explanation}`, "");
+    });
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
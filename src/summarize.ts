@@ -1,159 +1,391 @@
-import { query } from "@anthropic-ai/claude-agent-sdk";
-import { getModel, cleanEnv } from "./env";
+import { getModel, getProviderName } from "./env";
+import { resolvePrompt, languageInstruction, chaptersInstruction, translatePrompt, changesPrompt, studyPrompt, type SummaryType } from "./prompts";
+import { getProvider } from "./providers";
+import { getBaseUrl } from "./providers/openai";
+import { withRetry } from "./retry";
+import { addUsage, type Usage } from "./usage";
+import {
+  structuredInstructions,
+  parseStructured,
+  renderPartial,
+  structuredToMarkdown,
+  type StructuredSummary,
+} from "./structured";
+import { studyInstructions, parseDeck, type StudyDeck } from "./study";
 
 const TIMEOUT_MS = 120_000;
+// Model replies checked against the structured schema before giving up
+const MAX_SCHEMA_ATTEMPTS = 3;
 
+/** Human-readable provider/model for progress output, e.g. "Opus (claude-opus-4-7)". */
 export function getModelLabel(): string {
   const model = getModel();
-  // Pretty labels for known models
-  if (model.includes("opus")) return "Opus";
-  if (model.includes("sonnet")) return "Sonnet";
-  if (model.includes("haiku")) return "Haiku";
-  return model;
+  switch (getProviderName()) {
+    case "claude": {
+      // Pretty labels for known models
+      const family = ["opus", "sonnet", "haiku"].find((f) => model.includes(f));
+      return family ? `${family[0].toUpperCase()}${family.slice(1)} (${model})` : model;
+    }
+    case "openai":
+      return `${model} via ${getBaseUrl()}`;
+    default:
+      return `${getProviderName()}/${model}`;
+  }
 }
 
-const WEB_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given web article clearly and thoroughly.
-
-Output format:
-- Start with a 1-2 sentence TL;DR
-- Then 3-7 key points as bullet points
-- End with a "Notable quotes" section if there are striking quotes (max 3)
-
-Guidelines:
-- Be concise but don't omit important nuance
-- Preserve the author's key arguments and conclusions
-- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
-- Use simple, direct language
-- Output plain markdown`;
-
-const YOUTUBE_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given YouTube video transcript clearly and thoroughly.
-
-Output format:
-- Start with a 1-2 sentence TL;DR of what this video is about
-- Then 3-7 key points as bullet points covering the main topics discussed
-- End with a "Notable moments" section for any particularly interesting quotes or exchanges (max 3)
-
-Guidelines:
-- Transcripts are messy (auto-generated captions). Parse through the noise to find the real content.
-- If it's an interview/conversation, note who said what when relevant
-- Be concise but don't omit important nuance
-- Write like a human. No em-dashes, no AI jargon
-- Use simple, direct language
-- Output plain markdown`;
-
-const SITE_SYSTEM_PROMPT = `You are a concise summarization assistant. Summarize the given documentation site (multiple pages) clearly and thoroughly.
-
-Output format:
-- Start with a 2-3 sentence TL;DR of what this site covers overall
-- Then for each page/section, write:
-  ## <Page Title>
-  - 2-4 bullet points covering that page's key content
-- End with a "## Key Takeaways" section: 3-5 bullets that cut across all pages
-
-Guidelines:
-- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
-- Focus on what a reader needs to know to understand this documentation
-- Skip pages with no meaningful content (e.g. landing pages, brand guidelines)
-- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
-- Use simple, direct language
-- Output plain markdown`;
-
-const SITE_MERGE_PROMPT = `You are a concise summarization assistant. You are given partial summaries of different sections of a large documentation site. Merge them into a single coherent summary.
-
-Output format:
-- Start with a 2-3 sentence TL;DR of what this site covers overall
-- Then organize the key sections logically (group related topics, remove redundancy)
-  ## <Section Title>
-  - 2-4 bullet points covering key content
-- End with a "## Key Takeaways" section: 3-5 bullets that cut across all sections
-
-Guidelines:
-- Output the summary immediately. No preamble, no "I'll do X", no thinking out loud.
-- Merge and deduplicate — don't just concatenate the partial summaries
-- Group related sections together under logical headings
-- Focus on what a reader needs to know to understand this documentation
-- Write like a human. No em-dashes, no AI jargon like "delve", "leverage", "robust"
-- Use simple, direct language
-- Output plain markdown`;
-
-export async function summarize(
-  content: string,
-  meta: { title: string; url: string; type: "web" | "youtube" | "site" | "site-merge" },
-): Promise<string> {
-  let systemPrompt: string;
+export type SummarizeMeta = {
+  title: string;
+  url: string;
+  type: SummaryType;
+  style?: string;
+  /** Summary language (BCP 47); the model picks when unset. */
+  lang?: string;
+  /** The video's transcript is split into chapters; the summary follows them. */
+  chapters?: boolean;
+  /** Accumulator for the tokens and cost of every call made for this summary. */
+  usage?: Usage;
+  /**
+   * Receives the rendered markdown as it streams: an appended piece, or with `replace` the
+   * whole text again when it changed further back (a retry, a re-prompt, a reformatted line).
+   */
+  onText?: (text: string, replace?: boolean) => void;
+};
+
+interface TextStream {
+  push(delta: string): void;
+  /** Start over, e.g. for a retried or re-prompted call. */
+  reset(): void;
+  show(text: string): void;
+}
+
+/** Feeds raw provider deltas through `render` and reports the rendered text to onText. */
+function textStream(
+  onText: (text: string, replace?: boolean) => void,
+  render: (raw: string) => string = (raw) => raw,
+): TextStream {
+  let raw = "";
+  let shown = "";
+  const show = (text: string) => {
+    if (text === shown) return;
+    if (text.startsWith(shown)) onText(text.slice(shown.length));
+    else onText(text, true);
+    shown = text;
+  };
+  return {
+    push(delta) {
+      raw += delta;
+      show(render(raw));
+    },
+    reset() {
+      raw = "";
+      show("");
+    },
+    show,
+  };
+}
+
+/** The style's system prompt for this content type, plus the language requirement if any. */
+async function systemPrompt(meta: SummarizeMeta): Promise<string> {
+  const { text } = await resolvePrompt(meta.type, meta.style, meta);
+  const withChapters = meta.chapters ? text + chaptersInstruction() : text;
+  return meta.lang ? withChapters + languageInstruction(meta.lang) : withChapters;
+}
+
+/** The user turn: a header naming the source, then the content. */
+function buildPrompt(content: string, meta: SummarizeMeta): string {
   let typeLabel: string;
   let contentLabel: string;
 
   switch (meta.type) {
     case "youtube":
-      systemPrompt = YOUTUBE_SYSTEM_PROMPT;
       typeLabel = "Video";
       contentLabel = "Transcript";
       break;
-    case "site":
-      systemPrompt = SITE_SYSTEM_PROMPT;
-      typeLabel = "Site";
+    case "youtube-merge":
+      typeLabel = "Video";
+      contentLabel = "Partial summaries";
+      break;
+    case "web-merge":
+      typeLabel = "Article";
+      contentLabel = "Partial summaries";
+      break;
+    case "subtitles":
+      typeLabel = "Recording";
+      contentLabel = "Transcript";
+      break;
+    case "subtitles-merge":
+      typeLabel = "Recording";
+      contentLabel = "Partial summaries";
+      break;
+    case "document":
+      typeLabel = "Document";
+      contentLabel = "Content";
+      break;
+    case "document-merge":
+      typeLabel = "Document";
+      contentLabel = "Partial summaries";
+      break;
+    case "pdf":
+      typeLabel = "Document";
       contentLabel = "Pages";
       break;
+    case "pdf-merge":
+      typeLabel = "Document";
+      contentLabel = "Partial summaries";
+      break;
+    case "site":
     case "site-merge":
-      systemPrompt = SITE_MERGE_PROMPT;
       typeLabel = "Site";
       contentLabel = "Pages";
       break;
+    case "comparison":
+      typeLabel = "Comparison";
+      contentLabel = "Sources";
+      break;
+    case "playlist":
+      typeLabel = "Playlist";
+      contentLabel = "Video summaries";
+      break;
     default:
-      systemPrompt = WEB_SYSTEM_PROMPT;
       typeLabel = "Article";
       contentLabel = "Content";
   }
 
-  const prompt = `${typeLabel}: "${meta.title}"
+  return `${typeLabel}: "${meta.title}"
 Source: ${meta.url}
 
 ${contentLabel}:
 ${content}`;
+}
 
-  const env = cleanEnv();
-
-  const sdkCall = async (): Promise<string> => {
-    for await (const message of query({
-      prompt,
-      options: {
-        systemPrompt,
-        allowedTools: [],
-        maxTurns: 1,
-        permissionMode: "bypassPermissions",
-        allowDangerouslySkipPermissions: true,
-        model: getModel(),
-        thinking: { type: "adaptive" },
-        settingSources: [],
-        env,
-      },
-    })) {
-      if (message.type === "result") {
-        if (message.subtype === "success") {
-          return message.result;
-        }
-        const errors =
-          "errors" in message
-            ? (message.errors as string[])
-            : ["Unknown SDK error"];
-        throw new Error(`Claude SDK error: ${errors.join(", ")}`);
-      }
+/** One provider call with the per-call timeout, retried on transient errors. Usage goes to meta.usage. */
+async function complete(
+  system: string,
+  prompt: string,
+  meta: SummarizeMeta,
+  json = false,
+  stream?: TextStream,
+): Promise<string> {
+  const provider = getProvider();
+  const { text, usage } = await withRetry(`Summarizing "${meta.title}"`, async () => {
+    stream?.reset();
+    const controller = new AbortController();
+    let timer: Timer;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Summarization timed out after ${TIMEOUT_MS}ms`));
+      }, TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([
+        provider.complete({
+          system,
+          prompt,
+          model: getModel(),
+          json,
+          onText: stream && ((delta) => stream.push(delta)),
+          signal: controller.signal,
+        }),
+        timeoutPromise,
+      ]);
+    } finally {
+      clearTimeout(timer!);
     }
-    throw new Error("Claude SDK returned no result");
-  };
+  });
+  if (meta.usage) addUsage(meta.usage, usage);
+  return text;
+}
+
+export async function summarize(content: string, meta: SummarizeMeta): Promise<string> {
+  const stream = meta.onText && textStream(meta.onText);
+  const text = await complete(await systemPrompt(meta), buildPrompt(content, meta), meta, false, stream);
+  stream?.show(text);
+  return text;
+}
 
-  let timer: Timer;
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timer = setTimeout(
-      () => reject(new Error(`Summarization timed out after ${TIMEOUT_MS}ms`)),
-      TIMEOUT_MS,
+/** Ask for structured output, re-prompting with the validation problems up to MAX_SCHEMA_ATTEMPTS times. */
+async function completeStructured(
+  systemPrompt: string,
+  prompt: string,
+  meta: SummarizeMeta,
+): Promise<{ summary: string; structured: StructuredSummary }> {
+  // The JSON is rendered to markdown as it arrives, so the stream reads like the final summary
+  const stream = meta.onText && textStream(meta.onText, (raw) => renderPartial(raw, meta.type));
+  let reply = await complete(systemPrompt, prompt, meta, true, stream);
+  for (let attempt = 1; ; attempt++) {
+    const parsed = parseStructured(reply);
+    if (parsed.ok) {
+      const summary = structuredToMarkdown(parsed.value, meta.type);
+      stream?.show(summary);
+      return { summary, structured: parsed.value };
+    }
+    if (attempt >= MAX_SCHEMA_ATTEMPTS) {
+      throw new Error(`Summary did not match the schema after ${attempt} attempts: ${parsed.errors.join("; ")}`);
+    }
+    console.error(`  Summary failed schema validation (${parsed.errors.length} problems), re-prompting...`);
+    reply = await complete(
+      systemPrompt,
+      `${prompt}
+
+---
+Your previous reply did not match the required JSON format:
+${parsed.errors.map((e) => `- ${e}`).join("\n")}
+
+Previous reply:
+${reply.slice(0, 20_000)}
+
+Reply again with only the corrected JSON object.`,
+      meta,
+      true,
+      stream,
     );
-  });
+  }
+}
 
-  try {
-    return await Promise.race([sdkCall(), timeoutPromise]);
-  } finally {
-    clearTimeout(timer!);
+/**
+ * Summarize into a validated StructuredSummary. The style's prompt gets the JSON output contract
+ * appended; a reply that fails validation is sent back with the problems. Returns the
+ * structured form and its markdown rendering.
+ */
+export async function summarizeStructured(
+  content: string,
+  meta: SummarizeMeta,
+): Promise<{ summary: string; structured: StructuredSummary }> {
+  return completeStructured(
+    (await systemPrompt(meta)) + "\n" + structuredInstructions(meta.type, meta.chapters),
+    buildPrompt(content, meta),
+    meta,
+  );
+}
+
+/**
+ * Revise an existing structured summary according to `request` (e.g. fix these quotes),
+ * without resending the source. Same style, schema and validation as summarizeStructured.
+ */
+export async function reviseStructured(
+  current: StructuredSummary,
+  request: string,
+  meta: SummarizeMeta,
+): Promise<{ summary: string; structured: StructuredSummary }> {
+  return completeStructured(
+    (await systemPrompt(meta)) + "\n" + structuredInstructions(meta.type, meta.chapters),
+    `Summary of "${meta.title}" (${meta.url}):
+${JSON.stringify(withoutChecks(current), null, 2)}
+
+${request}
+
+Reply with the full revised summary as a JSON object.`,
+    meta,
+  );
+}
+
+/** Revise a markdown summary according to `request`, without resending the source. */
+export async function reviseSummary(current: string, request: string, meta: SummarizeMeta): Promise<string> {
+  const stream = meta.onText && textStream(meta.onText);
+  const summary = await complete(
+    await systemPrompt(meta),
+    `Summary of "${meta.title}" (${meta.url}):
+
+${current}
+
+${request}
+
+Reply with the full revised summary in the same markdown layout.`,
+    meta,
+    false,
+    stream,
+  );
+  stream?.show(summary);
+  return summary;
+}
+
+/** A structured summary as sent back to the model: quote verification results left out. */
+function withoutChecks(s: StructuredSummary): StructuredSummary {
+  return { ...s, quotes: s.quotes.map(({ check, ...q }) => q) };
+}
+
+/**
+ * Translate a stored summary into `lang` without going back to the source. Structured summaries
+ * are translated field by field and validated like any other; free-form ones as markdown.
+ */
+export async function translateSummary(
+  current: { summary: string; structured?: StructuredSummary },
+  lang: string,
+  meta: SummarizeMeta,
+): Promise<{ summary: string; structured?: StructuredSummary }> {
+  const { text } = translatePrompt(lang);
+  const header = `Summary of "${meta.title}" (${meta.url}):`;
+  if (current.structured) {
+    return completeStructured(
+      // A video summary's sections are its chapters
+      text + "\n" + structuredInstructions(meta.type, current.structured.sections.length > 0),
+      `${header}
+${JSON.stringify(withoutChecks(current.structured), null, 2)}
+
+Reply with the translated summary as a JSON object with the same fields.`,
+      meta,
+    );
+  }
+  const stream = meta.onText && textStream(meta.onText);
+  const summary = await complete(text, `${header}\n\n${current.summary}`, meta, false, stream);
+  stream?.show(summary);
+  return { summary };
+}
+
+/** Summarize what changed in a source, given a line diff of its old and new text. */
+export async function summarizeChanges(diff: string, meta: SummarizeMeta): Promise<string> {
+  const { text } = changesPrompt();
+  const system = meta.lang ? text + languageInstruction(meta.lang) : text;
+  const stream = meta.onText && textStream(meta.onText);
+  const summary = await complete(
+    system,
+    `Changes: "${meta.title}"
+Source: ${meta.url}
+
+Diff:
+${diff}`,
+    meta,
+    false,
+    stream,
+  );
+  stream?.show(summary);
+  return summary;
+}
+
+/** Flashcards and quiz questions for a piece of content, validated and re-prompted like structured summaries. */
+export async function generateDeck(
+  content: string,
+  counts: { cards: number; questions: number },
+  meta: SummarizeMeta,
+): Promise<StudyDeck> {
+  const { text } = studyPrompt();
+  const system =
+    (meta.lang ? text + languageInstruction(meta.lang) : text) + "\n" + studyInstructions(counts.cards, counts.questions);
+  const prompt = buildPrompt(content, meta);
+  let reply = await complete(system, prompt, meta, true);
+  for (let attempt = 1; ; attempt++) {
+    const parsed = parseDeck(reply, counts.cards > 0);
+    if (parsed.ok) return parsed.value;
+    if (attempt >= MAX_SCHEMA_ATTEMPTS) {
+      throw new Error(`Study deck did not match the schema after ${attempt} attempts: ${parsed.errors.join("; ")}`);
+    }
+    console.error(`  Study deck failed schema validation (${parsed.errors.length} problems), re-prompting...`);
+    reply = await complete(
+      system,
+      `${prompt}
+
+---
+Your previous reply did not match the required JSON format:
+${parsed.errors.map((e) => `- ${e}`).join("\n")}
+
+Previous reply:
+${reply.slice(0, 20_000)}
+
+Reply again with only the corrected JSON object.`,
+      meta,
+      true,
+    );
   }
 }
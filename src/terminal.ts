@@ -0,0 +1,199 @@
+import type { StructuredSummary } from "./structured";
+
+// ANSI colors for terminal output
+export const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+export const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+export const cyan = (s: string) => `\x1b[36m${s}\x1b[0m`;
+export const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+export const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
+export const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+
+export const PAD = "    ";
+const MARGIN = 4; // left padding chars
+const RIGHT_MARGIN = 4;
+
+/** Usable width between the left padding and right margin. */
+export function contentWidth(): number {
+  const cols = process.stdout.columns || 80;
+  return cols - MARGIN - RIGHT_MARGIN;
+}
+
+/** A dim horizontal rule spanning the content width. */
+export function rule(): string {
+  return PAD + dim("─".repeat(contentWidth()));
+}
+
+/** Strip ANSI escape codes to get visible character count */
+export function visibleLength(s: string): number {
+  return s.replace(/\x1b\[[0-9;]*m/g, "").length;
+}
+
+/** Word-wrap a line to fit within maxWidth visible characters */
+export function wrapLine(line: string, maxWidth: number): string[] {
+  // Don't wrap short lines or empty lines
+  if (visibleLength(line) <= maxWidth || line.trim() === "") return [line];
+
+  const words = line.split(" ");
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const test = current ? current + " " + word : word;
+    if (visibleLength(test) > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = test;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/** Inline markdown (bold, italic, code) to ANSI. */
+function inlineAnsi(text: string): string {
+  return text
+    // Bold+italic: ***text*** or ___text___
+    .replace(/\*{3}(.+?)\*{3}/g, (_, t) => `\x1b[1;3m${t}\x1b[0m`)
+    // Bold: **text**
+    .replace(/\*{2}(.+?)\*{2}/g, (_, t) => `\x1b[1m${t}\x1b[0m`)
+    // Italic: *text*
+    .replace(/(?<!\*)\*(?!\*)(.+?)(?<!\*)\*(?!\*)/g, (_, t) => `\x1b[3m${t}\x1b[0m`)
+    // Inline code: `code`
+    .replace(/`([^`]+)`/g, (_, t) => `\x1b[33m${t}\x1b[0m`);
+}
+
+/** Convert markdown formatting to ANSI escape codes for terminal display */
+export function mdToAnsi(text: string): string {
+  const maxWidth = contentWidth();
+
+  return inlineAnsi(
+    // Headings: ## Heading → bold cyan
+    text.replace(/^#{1,3}\s+(.+)$/gm, (_, h) => `\x1b[1;36m${h}\x1b[0m`),
+  )
+    // Quotes flagged by the source check, marked like structured ones
+    .replace(/\x1b\[3m\((approximate|unverified)\)\x1b\[0m$/gm, (_, status) =>
+      status === "approximate" ? yellow("≈ approximate") : red("✗ not in source"),
+    )
+    // Blockquotes: > text → dim italic
+    .replace(/^>\s*(.+)$/gm, (_, t) => `\x1b[2;3m  ${t}\x1b[0m`)
+    // Word-wrap and add padding
+    .split("\n")
+    .flatMap((line) => wrapLine(line, maxWidth))
+    .map((line) => PAD + line)
+    .join("\n");
+}
+
+/** Wrap one paragraph with a first-line prefix and a matching hanging indent. */
+function hanging(prefix: string, text: string): string[] {
+  const indent = " ".repeat(visibleLength(prefix));
+  return wrapLine(inlineAnsi(text), contentWidth() - indent.length).map(
+    (line, i) => PAD + (i === 0 ? prefix : indent) + line,
+  );
+}
+
+/** Render a structured summary for the terminal straight from its fields. */
+export function structuredToAnsi(s: StructuredSummary): string {
+  const heading = (h: string) => ["", PAD + `\x1b[1;36m${h}\x1b[0m`];
+  const lines = [...hanging(bold("TL;DR") + " ", s.tldr), ...heading("Key points")];
+  for (const point of s.keyPoints) lines.push(...hanging("• ", point));
+  if (s.sections.length) {
+    lines.push(...heading("Sections"));
+    for (const section of s.sections) {
+      lines.push("", PAD + bold(section.title) + (section.url ? "  " + dim(section.url) : ""));
+      lines.push(...hanging("", section.summary));
+    }
+  }
+  if (s.quotes.length) {
+    lines.push(...heading("Quotes"));
+    for (const q of s.quotes) {
+      lines.push(...hanging("  ", `\x1b[2;3m“${q.text}”\x1b[0m`));
+      const check = q.check && { verified: green("✓"), approximate: yellow("≈ approximate"), unverified: red("✗ not in source") }[q.check.status];
+      if (q.attribution || check) {
+        lines.push(PAD + "    " + [q.attribution && dim(`— ${q.attribution}`), check].filter(Boolean).join("  "));
+      }
+    }
+  }
+  if (s.tags.length) lines.push("", PAD + dim(s.tags.map((t) => `#${t}`).join("  ")));
+  return lines.join("\n");
+}
+
+/**
+ * Print summary markdown as it streams in, one finished line at a time through mdToAnsi.
+ * When the text is replaced from further back than what's on screen (a retry or a revision),
+ * a rule marks the restart and the new text prints below it.
+ */
+export function streamPrinter(): { write(text: string, replace?: boolean): void; end(): boolean } {
+  let text = "";
+  let printed: string[] = [];
+  let started = false;
+
+  const flush = (final: boolean) => {
+    const lines = text.split("\n");
+    const done = final ? lines : lines.slice(0, -1);
+    const diverged = printed.findIndex((line, i) => i < lines.length && line !== lines[i] && i < done.length);
+    if (diverged !== -1) {
+      console.log(rule());
+      console.log(`${PAD}${dim("(regenerated)")}`);
+      console.log("");
+      printed = [];
+    }
+    for (const line of done.slice(printed.length)) {
+      if (!started) {
+        console.log(rule());
+        console.log("");
+        started = true;
+      }
+      console.log(mdToAnsi(line));
+      printed.push(line);
+    }
+  };
+
+  return {
+    write(chunk, replace) {
+      text = replace ? chunk : text + chunk;
+      flush(false);
+    },
+    /** Print the last partial line. Returns whether anything was shown. */
+    end() {
+      if (text) flush(true);
+      return started;
+    },
+  };
+}
+
+/**
+ * Print a titled summary block: title, rendered markdown, then slug and file path. With
+ * streamed, the body is already on screen and only the title and footer follow it.
+ */
+export function printSummary(
+  result: {
+    slug: string;
+    title: string;
+    summary: string;
+    structured?: StructuredSummary;
+    htmlPath: string;
+    cached?: boolean;
+  },
+  streamed = false,
+): void {
+  if (streamed) {
+    console.log("");
+    console.log(rule());
+    console.log(PAD + bold(result.title));
+  } else {
+    console.log(rule());
+    console.log(PAD + (result.cached ? yellow("(cached) ") : "") + bold(result.title));
+    console.log(rule());
+    console.log("");
+    console.log(result.structured ? structuredToAnsi(result.structured) : mdToAnsi(result.summary));
+    console.log("");
+  }
+  console.log(rule());
+  console.log(`${PAD}${dim("slug")}  ${cyan(result.slug)}`);
+  console.log(`${PAD}${dim("file")}  ${green(result.htmlPath)}`);
+  if (result.cached) {
+    console.log(`${PAD}      ${dim("use --redo to re-summarize")}`);
+  }
+  console.log(rule());
+}
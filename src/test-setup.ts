@@ -0,0 +1,12 @@
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Tests get a throwaway library and the offline provider, whatever the shell has set
+const home = mkdtempSync(join(tmpdir(), "els-test-"));
+process.env.HOME = home;
+process.env.ELS_PROVIDER = "fake";
+for (const key of ["ELS_STRUCTURED", "ELS_FIX_QUOTES", "ELS_LANG", "ELS_MODEL", "ELS_CHUNK_WORDS"]) delete process.env[key];
+
+afterAll(() => rmSync(home, { recursive: true, force: true }));
@@ -55,8 +55,14 @@ async function findSessionForSlug(slug: string): Promise<string | null> {
   }
 }
 
+/** tmux window name for a slug. Long slugs keep their tail so "-2" collision suffixes stay distinct. */
+function windowNameFor(slug: string): string {
+  if (slug.length <= 30) return `els:${slug}`;
+  return `els:${slug.slice(0, 22)}…${slug.slice(-7)}`;
+}
+
 export async function openDiscussion(slug: string, forceNew?: boolean): Promise<void> {
-  const windowName = `els:${slug.slice(0, 30)}`;
+  const windowName = windowNameFor(slug);
 
   // If tmux window for this slug is already open, tell the user
   if (await tmuxWindowExists(windowName)) {
@@ -0,0 +1,148 @@
+// Timestamped transcripts: stored one caption per line as "[mm:ss] text" ("[h:mm:ss]" past an hour)
+
+export interface CaptionSegment {
+  /** Start and length in ms. The length isn't stored in transcripts, so it's derived on export. */
+  start: number;
+  duration?: number;
+  text: string;
+}
+
+/** A chapter marker of a video: where it starts (ms) and its title. */
+export interface Chapter {
+  start: number;
+  title: string;
+}
+
+const MARKER = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\]\s?/;
+// Window merged into one line when a transcript is condensed for the model
+const CONDENSE_WINDOW_MS = 30_000;
+// Caption length on export when the next caption is far off or there is none
+const MAX_CUE_MS = 7_000;
+
+/** Content types stored as timestamped transcripts: YouTube captions and subtitle files (and their merges). */
+export function isTranscriptType(type: string): boolean {
+  return type.startsWith("youtube") || type.startsWith("subtitles");
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, "0");
+}
+
+/** 83_000 → "01:23"; 3_723_000 → "1:02:03". */
+export function formatTimestamp(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  const h = Math.floor(s / 3600);
+  return h ? `${h}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}` : `${pad(Math.floor(s / 60))}:${pad(s % 60)}`;
+}
+
+function markerSeconds(match: RegExpMatchArray): number {
+  return parseInt(match[1] || "0") * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]);
+}
+
+/** "01:23" or "1:02:03" → seconds; null when it isn't a timestamp. */
+export function timestampSeconds(stamp: string): number | null {
+  const match = `[${stamp}]`.match(MARKER);
+  return match ? markerSeconds(match) : null;
+}
+
+/** Captions as stored: one "[mm:ss] text" line each. */
+export function toTranscript(segments: CaptionSegment[]): string {
+  return segments.map((s) => `[${formatTimestamp(s.start)}] ${s.text.replace(/\s+/g, " ")}`).join("\n");
+}
+
+/** Read a stored transcript back into captions. Unmarked lines join the caption before them. */
+export function parseTranscript(transcript: string): CaptionSegment[] {
+  const segments: CaptionSegment[] = [];
+  for (const line of transcript.split("\n")) {
+    const match = line.match(MARKER);
+    if (match) {
+      segments.push({ start: markerSeconds(match) * 1000, text: line.slice(match[0].length).trim() });
+    } else if (line.trim() && segments.length) {
+      segments.at(-1)!.text += ` ${line.trim()}`;
+    }
+  }
+  return segments;
+}
+
+/** The transcript text alone, e.g. to check quotes against. */
+export function stripTimestamps(transcript: string): string {
+  return transcript
+    .split("\n")
+    .map((line) => line.replace(MARKER, ""))
+    .join("\n");
+}
+
+/** Captions merged into lines of about CONDENSE_WINDOW_MS, each starting with its timestamp. */
+function condense(segments: CaptionSegment[]): string[] {
+  const lines: string[] = [];
+  let start = -Infinity;
+  for (const s of segments) {
+    if (s.start - start >= CONDENSE_WINDOW_MS) {
+      start = s.start;
+      lines.push(`[${formatTimestamp(s.start)}] ${s.text}`);
+    } else {
+      lines[lines.length - 1] += ` ${s.text}`;
+    }
+  }
+  return lines;
+}
+
+/**
+ * The transcript as sent to the model: captions merged into ~30 second lines, each starting with
+ * its timestamp. Far fewer markers to pay for, and still precise enough to cite. With chapters,
+ * each chapter becomes a block under a "## [mm:ss] Title" heading, blocks separated by a blank
+ * line so chunking keeps chapters together. Transcripts without timestamps are returned as they are.
+ */
+export function condenseTranscript(transcript: string, chapters: Chapter[] = []): string {
+  const segments = parseTranscript(transcript);
+  if (segments.length === 0) return transcript;
+  if (chapters.length === 0) return condense(segments).join("\n");
+
+  return chapters
+    .map((chapter, i) => {
+      const end = chapters[i + 1]?.start ?? Infinity;
+      // Captions before the first chapter marker go with the first chapter
+      const inside = segments.filter((s) => (i === 0 || s.start >= chapter.start) && s.start < end);
+      const heading = `## [${formatTimestamp(chapter.start)}] ${chapter.title}`;
+      return [heading, ...condense(inside)].join("\n");
+    })
+    .join("\n\n");
+}
+
+/** Chapters as stored in the frontmatter: "mm:ss Title" strings. */
+export function formatChapters(chapters: Chapter[]): string[] {
+  return chapters.map((c) => `${formatTimestamp(c.start)} ${c.title}`);
+}
+
+export function parseChapters(list: string[]): Chapter[] {
+  return list.flatMap((item) => {
+    const match = item.match(/^(\S+)\s+(.*)$/);
+    const seconds = match ? timestampSeconds(match[1]) : null;
+    return seconds === null ? [] : [{ start: seconds * 1000, title: match![2].trim() }];
+  });
+}
+
+/** Captions with an end time each: until the next one starts, within reason. */
+function cues(segments: CaptionSegment[]): { start: number; end: number; text: string }[] {
+  return segments.map((s, i) => {
+    const next = segments[i + 1]?.start ?? Infinity;
+    const length = s.duration ?? Math.min(next - s.start, MAX_CUE_MS);
+    return { start: s.start, end: s.start + Math.max(length, 1000), text: s.text };
+  });
+}
+
+function clock(ms: number, separator: "," | "."): string {
+  const s = Math.floor(ms / 1000);
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(segments: CaptionSegment[]): string {
+  return cues(segments)
+    .map((c, i) => `${i + 1}\n${clock(c.start, ",")} --> ${clock(c.end, ",")}\n${c.text}\n`)
+    .join("\n");
+}
+
+export function toVtt(segments: CaptionSegment[]): string {
+  const body = cues(segments).map((c) => `${clock(c.start, ".")} --> ${clock(c.end, ".")}\n${c.text}\n`);
+  return ["WEBVTT\n", ...body].join("\n");
+}
@@ -0,0 +1,8 @@
+// The User-Agent for crawling sites and fetching PDFs: a browser's, so sites serve the pages
+// people see, with our product token on the end so robots.txt groups naming it apply to what
+// the site actually receives.
+
+/** Product token at the end of UA, and the robots.txt user agent we obey. */
+export const AGENT = "elsummariz00r";
+
+export const UA = `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36 ${AGENT}`;
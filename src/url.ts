@@ -0,0 +1,72 @@
+// Query params that only track where a click came from — never part of the page identity
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "dclid", "gbraid", "wbraid", "msclkid", "yclid", "twclid", "igshid",
+  "mc_cid", "mc_eid", "_hsenc", "_hsmi", "ref", "ref_src", "ref_url", "referrer",
+  "si", "spm", "cmpid", "s_cid", "amp", "outputtype",
+]);
+const TRACKING_PREFIXES = ["utm_", "pk_", "mtm_", "hsa_", "oly_"];
+
+// Host prefixes that serve the same content as the bare domain
+const HOST_VARIANTS = /^(?:www\d*|m|mobile|amp)\./;
+
+function isTrackingParam(key: string): boolean {
+  const k = key.toLowerCase();
+  return TRACKING_PARAMS.has(k) || TRACKING_PREFIXES.some((p) => k.startsWith(p));
+}
+
+/** Unwrap AMP cache URLs back to the publisher's URL. */
+function unwrapAmpCache(u: URL): URL {
+  // https://example-com.cdn.ampproject.org/c/s/example.com/path → https://example.com/path
+  // https://www.google.com/amp/s/example.com/path → https://example.com/path
+  const cache = u.hostname.endsWith(".cdn.ampproject.org")
+    ? u.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/)
+    : /(^|\.)google\.[a-z.]+$/.test(u.hostname)
+      ? u.pathname.match(/^\/amp\/(s\/)?(.+)$/)
+      : null;
+  if (!cache) return u;
+  try {
+    return new URL(`${cache[1] ? "https" : "http"}://${cache[2]}${u.search}`);
+  } catch {
+    return u;
+  }
+}
+
+/**
+ * Normalize a URL for dedup comparison. YouTube → video ID. Web pages go through a
+ * canonicalization pipeline: AMP caches unwrapped, scheme dropped, www/m/amp host variants
+ * unified, tracking params removed, query keys sorted, AMP paths and trailing slashes stripped.
+ */
+export function normalizeUrl(url: string): string {
+  // YouTube: normalize to just the video ID
+  const ytMatch = url.match(
+    /(?:youtube\.com\/(?:watch\?.*v=|shorts\/|live\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/,
+  );
+  if (ytMatch) return `yt:${ytMatch[1]}`;
+
+  let u: URL;
+  try {
+    u = unwrapAmpCache(new URL(url));
+  } catch {
+    return url;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") {
+    u.hash = "";
+    return u.toString();
+  }
+
+  const host = u.hostname.toLowerCase().replace(HOST_VARIANTS, "");
+  const port = u.port ? `:${u.port}` : "";
+
+  const path = u.pathname
+    .replace(/\/amp\/?$/i, "")
+    .replace(/\.amp(\.html?)?$/i, "$1")
+    .replace(/\/index\.html?$/i, "")
+    .replace(/\/+$/, "");
+
+  const params = [...u.searchParams]
+    .filter(([key]) => !isTrackingParam(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = params.length ? `?${new URLSearchParams(params)}` : "";
+
+  return `${host}${port}${path}${query}`;
+}
@@ -0,0 +1,77 @@
+import { appendFile } from "node:fs/promises";
+import { USAGE_LEDGER } from "./paths";
+
+/** Tokens, spend and time for one or more model calls. */
+export interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * One line of the usage ledger (usage.jsonl): a saved summary, translation, "what changed"
+ * summary or study deck, or a companion chat turn.
+ */
+export interface LedgerEntry extends Usage {
+  date: string;
+  kind: "summary" | "translation" | "changes" | "study" | "chat";
+  /** web, youtube or site for summaries; "chat" for the companion. */
+  type: string;
+  model: string;
+  slug?: string;
+  url?: string;
+}
+
+export function emptyUsage(): Usage {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 };
+}
+
+/** Add b into the accumulator a. */
+export function addUsage(a: Usage, b: Usage): Usage {
+  a.inputTokens += b.inputTokens;
+  a.outputTokens += b.outputTokens;
+  a.costUsd += b.costUsd;
+  a.durationMs += b.durationMs;
+  return a;
+}
+
+/** Usage from an Agent SDK result message. Cached prompt tokens count as input. */
+export function usageFromSdk(message: any): Usage {
+  const u = message.usage ?? {};
+  return {
+    inputTokens:
+      (u.input_tokens ?? 0) + (u.cache_creation_input_tokens ?? 0) + (u.cache_read_input_tokens ?? 0),
+    outputTokens: u.output_tokens ?? 0,
+    costUsd: message.total_cost_usd ?? 0,
+    durationMs: message.duration_ms ?? 0,
+  };
+}
+
+export function formatCost(usd: number): string {
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+}
+
+export function formatTokens(n: number): string {
+  return n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1_000 ? `${(n / 1_000).toFixed(1)}k` : String(n);
+}
+
+export async function appendLedger(entry: LedgerEntry): Promise<void> {
+  await appendFile(USAGE_LEDGER, JSON.stringify(entry) + "\n");
+}
+
+/** Every ledger entry, oldest first. Unreadable lines are skipped. */
+export async function readLedger(): Promise<LedgerEntry[]> {
+  const file = Bun.file(USAGE_LEDGER);
+  if (!(await file.exists())) return [];
+  const entries: LedgerEntry[] = [];
+  for (const line of (await file.text()).split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Partial write from an interrupted run
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,56 @@
+import { WATCHLIST } from "./paths";
+
+// Entries `els refresh` checks for changes by default. Kept as a plain JSON file next to the
+// library, since the catalog is rebuilt from the markdown files and would lose it.
+
+export interface WatchEntry {
+  slug: string;
+  url: string;
+  /** ISO timestamps: when watching started, the last check, and the last change found. */
+  added: string;
+  checked?: string;
+  changed?: string;
+}
+
+export async function readWatchlist(): Promise<WatchEntry[]> {
+  const file = Bun.file(WATCHLIST);
+  if (!(await file.exists())) return [];
+  try {
+    const list = await file.json();
+    return Array.isArray(list) ? list : [];
+  } catch {
+    throw new Error(`Could not parse ${WATCHLIST}`);
+  }
+}
+
+async function writeWatchlist(list: WatchEntry[]): Promise<void> {
+  await Bun.write(WATCHLIST, JSON.stringify(list, null, 2) + "\n");
+}
+
+/** Start watching an entry. Returns false if it was already watched. */
+export async function watch(slug: string, url: string): Promise<boolean> {
+  const list = await readWatchlist();
+  if (list.some((w) => w.slug === slug)) return false;
+  list.push({ slug, url, added: new Date().toISOString() });
+  await writeWatchlist(list);
+  return true;
+}
+
+/** Stop watching an entry. Returns false if it wasn't watched. */
+export async function unwatch(slug: string): Promise<boolean> {
+  const list = await readWatchlist();
+  const rest = list.filter((w) => w.slug !== slug);
+  if (rest.length === list.length) return false;
+  await writeWatchlist(rest);
+  return true;
+}
+
+/** Record a refresh of a watched entry; unwatched entries are left alone. */
+export async function markChecked(slug: string, changed: boolean): Promise<void> {
+  const list = await readWatchlist();
+  const entry = list.find((w) => w.slug === slug);
+  if (!entry) return;
+  entry.checked = new Date().toISOString();
+  if (changed) entry.changed = entry.checked;
+  await writeWatchlist(list);
+}
@@ -1,3 +1,5 @@
+import { toTranscript, timestampSeconds, type CaptionSegment, type Chapter } from "./transcript";
+
 const UA =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36";
 
@@ -7,15 +9,78 @@ const CONSENT_COOKIE =
 
 export interface CaptionResult {
   title: string;
+  /** One "[mm:ss] text" line per caption (see transcript.ts). */
   transcript: string;
-  segments: number;
+  segments: CaptionSegment[];
   words: number;
+  /** Language code of the caption track used. */
+  language: string;
+  track: TrackChoice;
+  metadata: VideoMetadata;
+}
+
+/** What the watch page tells about a video besides its captions. */
+export interface VideoMetadata {
+  channel?: string;
+  /** Publish date, YYYY-MM-DD. */
+  published?: string;
+  /** Length in seconds. */
+  duration?: number;
+  description?: string;
+  /** Chapter markers in order; empty when the video has none. */
+  chapters: Chapter[];
+}
+
+/** A caption track as YouTube lists it. */
+export interface CaptionTrackInfo {
+  /** Language code as YouTube gives it, lowercased (e.g. "en", "pt-br"). */
+  lang: string;
+  /** Display name, e.g. "English (auto-generated)". */
+  name: string;
+  /** Uploaded by the channel, or speech recognition. */
+  kind: "manual" | "asr";
+  /** Whether YouTube can machine-translate this track (see fetchCaptions' captionLang). */
+  translatable: boolean;
+}
+
+export interface CaptionTracks {
+  title: string;
+  tracks: CaptionTrackInfo[];
+  /** Languages YouTube offers to translate translatable tracks into. */
+  translationLanguages: { lang: string; name: string }[];
+}
+
+/** The track a transcript came from, as recorded in the frontmatter. */
+export interface TrackChoice {
+  lang: string;
+  kind: "manual" | "asr";
+  /** Language of the track YouTube translated, when the captions are a translation. */
+  translatedFrom?: string;
 }
 
 export function isYouTube(url: string): boolean {
   return /youtube\.com\/(watch|shorts|live)|youtu\.be\//.test(url);
 }
 
+// Playlists and channels (@handle, /channel/UC…, /c/…, /user/…), optionally on one of their tabs
+const LIST_PATTERN =
+  /youtube\.com\/(?:playlist\?(?:.*&)?list=([\w-]+)|(@[^/?#]+|channel\/[\w-]+|c\/[^/?#]+|user\/[^/?#]+))/;
+
+/** A playlist or channel page. Watch URLs that carry a list= are single videos. */
+export function isYouTubeList(url: string): boolean {
+  return !isYouTube(url) && LIST_PATTERN.test(url);
+}
+
+/** Canonical URL of a playlist, or of a channel's videos tab, for dedup; null for anything else. */
+export function listUrl(url: string): string | null {
+  if (isYouTube(url)) return null;
+  const match = url.match(LIST_PATTERN);
+  if (!match) return null;
+  return match[1]
+    ? `https://www.youtube.com/playlist?list=${match[1]}`
+    : `https://www.youtube.com/${match[2]}/videos`;
+}
+
 export function extractVideoId(url: string): string | null {
   const match = url.match(
     /(?:youtube\.com\/(?:watch\?.*v=|shorts\/|live\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/,
@@ -23,28 +88,135 @@ export function extractVideoId(url: string): string | null {
   return match?.[1] ?? null;
 }
 
+/** A text field in YouTube's JSON: plain, or split into formatted runs. */
+interface YtText {
+  simpleText?: string;
+  runs?: { text: string }[];
+}
+
 interface CaptionTrack {
   languageCode: string;
   kind?: string;
   baseUrl: string;
+  name?: YtText;
+  isTranslatable?: boolean;
+}
+
+interface TranslationLanguage {
+  languageCode: string;
+  languageName?: YtText;
+}
+
+/** The parts of a player response (inline or from /player) we read. */
+interface PlayerResponse {
+  videoDetails?: { title?: string; author?: string; shortDescription?: string; lengthSeconds?: string };
+  microformat?: {
+    playerMicroformatRenderer?: {
+      description?: YtText;
+      publishDate?: string;
+      uploadDate?: string;
+      ownerChannelName?: string;
+    };
+  };
+  playabilityStatus?: { status?: string };
+  captions?: {
+    playerCaptionsTracklistRenderer?: { captionTracks?: CaptionTrack[]; translationLanguages?: TranslationLanguage[] };
+  };
+}
+
+/** The parts of a page's ytInitialData we read. The renderer trees below are walked, not typed. */
+interface InitialData {
+  playerOverlays?: unknown;
+  contents?: unknown;
+  alerts?: { alertRenderer?: { type?: string; text?: YtText } }[];
+  metadata?: { playlistMetadataRenderer?: { title?: string }; channelMetadataRenderer?: { title?: string } };
+}
+
+/** A /browse continuation page. */
+interface BrowseResponse {
+  onResponseReceivedActions?: unknown;
+  onResponseReceivedEndpoints?: unknown;
+}
+
+interface VideoRenderer {
+  videoId?: string;
+  title?: YtText;
+}
+
+/** The renderers collectChapters and collectVideos look for in a node of those trees. */
+interface RendererNode {
+  chapterRenderer?: { timeRangeStartMillis?: number; title?: YtText };
+  playlistVideoRenderer?: VideoRenderer;
+  videoRenderer?: VideoRenderer;
+  gridVideoRenderer?: VideoRenderer;
+  lockupViewModel?: {
+    contentType?: string;
+    contentId?: string;
+    metadata?: { lockupMetadataViewModel?: { title?: { content?: string } } };
+  };
+  continuationItemRenderer?: { continuationEndpoint?: { continuationCommand?: { token?: string } } };
 }
 
-function selectBestTrack(tracks: CaptionTrack[]): CaptionTrack {
-  // Prefer: manual EN > manual any > auto EN > auto any
+function label(text?: YtText): string {
+  return text?.simpleText ?? text?.runs?.map((r) => r.text).join("") ?? "";
+}
+
+function langMatches(code: string, lang: string): boolean {
+  const a = code.toLowerCase();
+  const b = lang.toLowerCase();
+  return a === b || a.startsWith(`${b}-`) || b.startsWith(`${a}-`);
+}
+
+function trackInfo(track: CaptionTrack): CaptionTrackInfo {
+  return {
+    lang: track.languageCode.toLowerCase(),
+    name: label(track.name) || track.languageCode,
+    kind: track.kind === "asr" ? "asr" : "manual",
+    translatable: !!track.isTranslatable,
+  };
+}
+
+function selectBestTrack(tracks: CaptionTrack[], lang = "en"): CaptionTrack {
+  // Prefer: manual in lang > manual any > auto in lang > auto any (lang is the summary language, EN by default)
+  const primary = lang.split("-")[0];
   const sorted = [...tracks].sort((a, b) => {
     const aAuto = a.kind === "asr" ? 1 : 0;
     const bAuto = b.kind === "asr" ? 1 : 0;
     if (aAuto !== bAuto) return aAuto - bAuto;
 
-    const aEn =
-      a.languageCode === "en" || a.languageCode.startsWith("en-") ? 0 : 1;
-    const bEn =
-      b.languageCode === "en" || b.languageCode.startsWith("en-") ? 0 : 1;
-    return aEn - bEn;
+    const aMatch =
+      a.languageCode === primary || a.languageCode.startsWith(`${primary}-`) ? 0 : 1;
+    const bMatch =
+      b.languageCode === primary || b.languageCode.startsWith(`${primary}-`) ? 0 : 1;
+    return aMatch - bMatch;
   });
   return sorted[0];
 }
 
+/**
+ * The track for an explicitly requested caption language: the video's own track in that
+ * language (manual before ASR), else a translatable track for YouTube to translate (tlang).
+ */
+function selectTrackFor(
+  tracks: CaptionTrack[],
+  translationLanguages: TranslationLanguage[],
+  captionLang: string,
+): { track: CaptionTrack; tlang?: string } {
+  const own = tracks.filter((t) => langMatches(t.languageCode, captionLang));
+  if (own.length) return { track: selectBestTrack(own, captionLang) };
+
+  const target = translationLanguages.find((t) => langMatches(t.languageCode, captionLang));
+  const translatable = tracks.filter((t) => t.isTranslatable);
+  if (!target || translatable.length === 0) {
+    const available = [...new Set(tracks.map((t) => t.languageCode.toLowerCase()))].join(", ");
+    throw new Error(
+      `No ${captionLang} captions for this video (tracks: ${available}${translatable.length ? "; no translation to it offered" : ""})`,
+    );
+  }
+  // Translate the most reliable track: manual first, English before other languages
+  return { track: selectBestTrack(translatable), tlang: target.languageCode };
+}
+
 function decodeEntities(s: string): string {
   return s
     .replace(/&amp;/g, "&")
@@ -57,105 +229,234 @@ function decodeEntities(s: string): string {
     .replace(/&nbsp;/g, " ");
 }
 
-function parseJson3(body: string): string[] {
+function parseJson3(body: string): CaptionSegment[] {
   const result = JSON.parse(body);
   const events: any[] = result.events || [];
-  const lines: string[] = [];
+  const segments: CaptionSegment[] = [];
   for (const event of events) {
     const segs: any[] = event.segs || [];
     const text = segs
       .map((s: any) => s.utf8 || "")
       .join("")
       .trim();
-    if (text) lines.push(text);
+    if (text) segments.push({ start: event.tStartMs ?? 0, duration: event.dDurationMs, text });
   }
-  return lines;
+  return segments;
 }
 
-function parseXml(body: string): string[] {
-  const lines: string[] = [];
-  const regex = /<text[^>]*>([\s\S]*?)<\/text>/gi;
+function parseXml(body: string): CaptionSegment[] {
+  const segments: CaptionSegment[] = [];
+  const regex = /<text([^>]*)>([\s\S]*?)<\/text>/gi;
   let match;
   while ((match = regex.exec(body)) !== null) {
-    const decoded = decodeEntities(match[1])
+    const decoded = decodeEntities(match[2])
       .replace(/\s+/g, " ")
       .trim();
-    if (decoded) lines.push(decoded);
+    // start and dur are in seconds here
+    const start = parseFloat(match[1].match(/\bstart="([\d.]+)"/)?.[1] ?? "0");
+    const dur = match[1].match(/\bdur="([\d.]+)"/)?.[1];
+    if (decoded) {
+      segments.push({
+        start: Math.round(start * 1000),
+        duration: dur ? Math.round(parseFloat(dur) * 1000) : undefined,
+        text: decoded,
+      });
+    }
   }
-  return lines;
+  return segments;
 }
 
-export async function fetchCaptions(
-  videoId: string,
-): Promise<CaptionResult> {
-  // Step 1: Fetch watch page with consent cookie (gets API key, cookies, and inline player response)
-  const pageResp = await fetch(
-    `https://www.youtube.com/watch?v=${videoId}`,
-    { headers: { "User-Agent": UA, Accept: "text/html", Cookie: CONSENT_COOKIE } },
-  );
+/** A JSON object assigned inline in a page's script, or null. */
+function inlineJson<T>(html: string, pattern: RegExp): T | null {
+  const match = html.match(pattern);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Chapter markers from the watch page's player bar (chapterRenderer entries), wherever they sit. */
+function collectChapters(node: unknown, chapters: Chapter[]): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectChapters(item, chapters);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+  const chapter = (node as RendererNode).chapterRenderer;
+  if (chapter && typeof chapter.timeRangeStartMillis === "number") {
+    chapters.push({ start: chapter.timeRangeStartMillis, title: label(chapter.title).trim() || "Untitled" });
+    return;
+  }
+  for (const value of Object.values(node)) collectChapters(value, chapters);
+}
+
+// "0:00 Intro", "12:34 - Setup", "(1:02:03) Q&A"
+const CHAPTER_LINE = /^\s*[\[(]?((?:\d+:)?\d{1,2}:\d{2})[\])]?\s*(?:[-–—:|]\s*)?(\S.*)$/;
+const MIN_CHAPTERS = 3;
+
+/**
+ * Chapters listed in a description, following YouTube's own rules for them: at least three
+ * timestamps in ascending order, the first at 0:00.
+ */
+function descriptionChapters(description: string): Chapter[] {
+  const chapters: Chapter[] = [];
+  for (const line of description.split("\n")) {
+    const match = line.match(CHAPTER_LINE);
+    const seconds = match ? timestampSeconds(match[1]) : null;
+    if (seconds === null) continue;
+    chapters.push({ start: seconds * 1000, title: match![2].trim() });
+  }
+  const ascending = chapters.every((c, i) => i === 0 || c.start > chapters[i - 1].start);
+  return chapters.length >= MIN_CHAPTERS && chapters[0].start === 0 && ascending ? chapters : [];
+}
+
+/** Channel, publish date, length, description and chapters, from the inline player response or /player. */
+function videoMetadata(
+  inlinePlayer: PlayerResponse | null,
+  player: PlayerResponse | null,
+  initialData: InitialData | null,
+): VideoMetadata {
+  const details = inlinePlayer?.videoDetails ?? player?.videoDetails;
+  const micro = inlinePlayer?.microformat?.playerMicroformatRenderer ?? player?.microformat?.playerMicroformatRenderer;
+  const description: string | undefined = details?.shortDescription || label(micro?.description) || undefined;
+
+  const chapters: Chapter[] = [];
+  collectChapters(initialData?.playerOverlays, chapters);
+  const published: string | undefined = micro?.publishDate ?? micro?.uploadDate;
+  const duration = parseInt(details?.lengthSeconds ?? "");
+  return {
+    channel: details?.author ?? micro?.ownerChannelName ?? undefined,
+    published: published?.slice(0, 10),
+    duration: duration > 0 ? duration : undefined,
+    description,
+    chapters: chapters.length ? chapters : description ? descriptionChapters(description) : [],
+  };
+}
+
+interface Player {
+  title: string;
+  metadata: VideoMetadata;
+  tracks: CaptionTrack[];
+  translationLanguages: TranslationLanguage[];
+  /** Cookies from the watch page, needed to fetch caption tracks of restricted videos. */
+  cookies: string;
+}
+
+interface Page {
+  html: string;
+  /** The consent cookie plus whatever the page set. */
+  cookies: string;
+  /** Page title without the " - YouTube" suffix. */
+  title?: string;
+}
+
+/** Fetch a YouTube page with the consent cookie (gets the API key, cookies, and inline JSON). */
+async function fetchPage(url: string): Promise<Page> {
+  const pageResp = await fetch(url, {
+    headers: { "User-Agent": UA, Accept: "text/html", Cookie: CONSENT_COOKIE },
+  });
   const html = await pageResp.text();
   const setCookies = (pageResp.headers.getSetCookie?.() ?? [])
     .map((c: string) => c.split(";")[0])
     .join("; ");
-  const pageCookies = CONSENT_COOKIE + (setCookies ? "; " + setCookies : "");
-
   const titleMatch = html.match(/<title>([^<]+)<\/title>/);
-  let title =
-    titleMatch?.[1]?.replace(" - YouTube", "").trim() || "Untitled Video";
+  return {
+    html,
+    cookies: CONSENT_COOKIE + (setCookies ? "; " + setCookies : ""),
+    title: titleMatch?.[1]?.replace(" - YouTube", "").trim() || undefined,
+  };
+}
 
-  // Step 2: Try inline ytInitialPlayerResponse for title fallback
-  const inlineMatch = html.match(
-    /var\s+ytInitialPlayerResponse\s*=\s*({.+?});\s*(?:var|<\/script)/s,
-  );
-  if (inlineMatch) {
-    try {
-      const pr = JSON.parse(inlineMatch[1]);
-      if (title === "Untitled Video" && pr?.videoDetails?.title) {
-        title = pr.videoDetails.title;
-      }
-    } catch {}
+/** POST to an innertube endpoint with the page's API key and cookies. */
+async function innertube<T>(endpoint: string, page: Page, body: object): Promise<T | null> {
+  const apiKeyMatch = page.html.match(/"INNERTUBE_API_KEY":"([^"]+)"/);
+  if (!apiKeyMatch) throw new Error("Could not find YouTube API key");
+  const resp = await fetch(`https://www.youtube.com/youtubei/v1/${endpoint}?key=${apiKeyMatch[1]}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": UA,
+      Accept: "application/json",
+      Cookie: page.cookies,
+    },
+    body: JSON.stringify(body),
+  });
+  return (await resp.json()) as T | null;
+}
+
+async function fetchPlayer(videoId: string): Promise<Player> {
+  // Step 1: Fetch watch page with consent cookie (gets API key, cookies, and inline player response)
+  const page = await fetchPage(`https://www.youtube.com/watch?v=${videoId}`);
+  const { html, cookies: pageCookies } = page;
+  let title = page.title || "Untitled Video";
+
+  // Step 2: Inline ytInitialPlayerResponse (title fallback, video details) and ytInitialData (chapters)
+  const inlinePlayer = inlineJson<PlayerResponse>(html, /var\s+ytInitialPlayerResponse\s*=\s*({.+?});\s*(?:var|<\/script)/s);
+  if (title === "Untitled Video" && inlinePlayer?.videoDetails?.title) {
+    title = inlinePlayer.videoDetails.title;
   }
+  const initialData = inlineJson<InitialData>(html, /ytInitialData\s*=\s*({.+?});\s*<\/script/s);
 
   // Step 3: ANDROID innertube /player (inline caption URLs don't work server-side)
-  const apiKeyMatch = html.match(/"INNERTUBE_API_KEY":"([^"]+)"/);
-  if (!apiKeyMatch) throw new Error("Could not find YouTube API key");
-
-  const playerResp = await fetch(
-    `https://www.youtube.com/youtubei/v1/player?key=${apiKeyMatch[1]}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "User-Agent": UA,
-        Accept: "application/json",
-        Cookie: pageCookies,
-      },
-      body: JSON.stringify({
-        context: {
-          client: { clientName: "ANDROID", clientVersion: "20.10.38" },
-        },
-        videoId,
-      }),
+  const data = await innertube<PlayerResponse>("player", page, {
+    context: {
+      client: { clientName: "ANDROID", clientVersion: "20.10.38" },
     },
-  );
-
-  const data: any = await playerResp.json();
+    videoId,
+  });
   if (data?.playabilityStatus?.status !== "OK") {
     throw new Error(
       `Video not playable: ${data?.playabilityStatus?.status || "unknown"}`,
     );
   }
 
-  const captionTracks: CaptionTrack[] =
-    data?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-
-  if (!captionTracks?.length) {
+  const tracklist = data?.captions?.playerCaptionsTracklistRenderer;
+  const tracks: CaptionTrack[] = tracklist?.captionTracks ?? [];
+  if (!tracks.length) {
     throw new Error("No captions available for this video");
   }
+  return {
+    title,
+    metadata: videoMetadata(inlinePlayer, data, initialData),
+    tracks,
+    translationLanguages: tracklist?.translationLanguages ?? [],
+    cookies: pageCookies,
+  };
+}
+
+/** The caption tracks a video has, and the languages YouTube can translate them into. */
+export async function listCaptionTracks(videoId: string): Promise<CaptionTracks> {
+  const player = await fetchPlayer(videoId);
+  return {
+    title: player.title,
+    tracks: player.tracks.map(trackInfo),
+    translationLanguages: player.translationLanguages.map((t) => ({
+      lang: t.languageCode.toLowerCase(),
+      name: label(t.languageName) || t.languageCode,
+    })),
+  };
+}
+
+/**
+ * Fetch a video's captions. `captionLang` asks for captions in that language, translated by
+ * YouTube when the video has no such track; otherwise the best track is picked, preferring
+ * the summary language `lang`.
+ */
+export async function fetchCaptions(
+  videoId: string,
+  opts: { lang?: string; captionLang?: string } = {},
+): Promise<CaptionResult> {
+  const { title, metadata, tracks, translationLanguages, cookies: pageCookies } = await fetchPlayer(videoId);
 
-  // Step 4: Fetch best caption track (with cookies for restricted videos)
-  const track = selectBestTrack(captionTracks);
-  const capUrl = new URL(track.baseUrl);
+  // Step 4: Fetch the chosen caption track (with cookies for restricted videos)
+  const { track, tlang } = opts.captionLang
+    ? selectTrackFor(tracks, translationLanguages, opts.captionLang)
+    : { track: selectBestTrack(tracks, opts.lang) };
+  const trackUrl = new URL(track.baseUrl);
+  if (tlang) trackUrl.searchParams.set("tlang", tlang);
+  const capUrl = new URL(trackUrl);
   capUrl.searchParams.set("fmt", "json3");
 
   const capResp = await fetch(capUrl.toString(), {
@@ -167,34 +468,124 @@ export async function fetchCaptions(
   });
   const capBody = await capResp.text();
 
-  let lines: string[] = [];
+  let segments: CaptionSegment[] = [];
 
   if (capBody) {
     try {
-      lines = parseJson3(capBody);
+      segments = parseJson3(capBody);
     } catch {
-      lines = parseXml(capBody);
+      segments = parseXml(capBody);
     }
   }
 
   // Fallback: plain XML
-  if (lines.length === 0) {
-    const xmlResp = await fetch(track.baseUrl, {
+  if (segments.length === 0) {
+    const xmlResp = await fetch(trackUrl.toString(), {
       headers: { "User-Agent": UA, Cookie: pageCookies },
     });
     const xmlBody = await xmlResp.text();
-    if (xmlBody) lines = parseXml(xmlBody);
+    if (xmlBody) segments = parseXml(xmlBody);
   }
 
-  if (lines.length === 0) {
+  if (segments.length === 0) {
     throw new Error("Caption tracks found but content was empty");
   }
 
-  const transcript = lines.join("\n");
   return {
     title,
-    transcript,
-    segments: lines.length,
-    words: transcript.split(/\s+/).length,
+    transcript: toTranscript(segments),
+    segments,
+    words: segments.map((s) => s.text).join(" ").split(/\s+/).length,
+    language: (tlang ?? track.languageCode).toLowerCase(),
+    track: {
+      lang: (tlang ?? track.languageCode).toLowerCase(),
+      kind: track.kind === "asr" ? "asr" : "manual",
+      ...(tlang ? { translatedFrom: track.languageCode.toLowerCase() } : {}),
+    },
+    metadata,
   };
 }
+
+export interface ListedVideo {
+  id: string;
+  title: string;
+  url: string;
+}
+
+export interface VideoList {
+  title: string;
+  kind: "playlist" | "channel";
+  /** Canonical URL (see listUrl). */
+  url: string;
+  videos: ListedVideo[];
+}
+
+// Innertube client for browse requests; the ANDROID client used for /player doesn't page playlists
+const WEB_CLIENT = { clientName: "WEB", clientVersion: "2.20240726.00.00" };
+
+/** Collect video entries and continuation tokens from a browse response, whatever its layout. */
+function collectVideos(node: unknown, videos: ListedVideo[], tokens: string[]): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectVideos(item, videos, tokens);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  const r = node as RendererNode;
+  const renderer = r.playlistVideoRenderer ?? r.videoRenderer ?? r.gridVideoRenderer;
+  const lockup = r.lockupViewModel?.contentType === "LOCKUP_CONTENT_TYPE_VIDEO" ? r.lockupViewModel : undefined;
+  const id = renderer?.videoId ?? lockup?.contentId;
+  if (id) {
+    if (!videos.some((v) => v.id === id)) {
+      const title = renderer ? label(renderer.title) : lockup?.metadata?.lockupMetadataViewModel?.title?.content;
+      videos.push({ id, title: title || id, url: `https://www.youtube.com/watch?v=${id}` });
+    }
+    return;
+  }
+  const token = r.continuationItemRenderer?.continuationEndpoint?.continuationCommand?.token;
+  if (token) {
+    tokens.push(token);
+    return;
+  }
+  for (const value of Object.values(node)) collectVideos(value, videos, tokens);
+}
+
+/**
+ * The videos of a playlist or channel, in page order, up to `limit`. The first page comes from
+ * the page's inline ytInitialData; the rest from innertube /browse continuations.
+ */
+export async function fetchVideoList(url: string, limit: number): Promise<VideoList> {
+  const canonical = listUrl(url);
+  if (!canonical) throw new Error(`Not a YouTube playlist or channel: ${url}`);
+  const kind = canonical.includes("/playlist?") ? "playlist" : "channel";
+
+  const page = await fetchPage(canonical);
+  const inline = page.html.match(/ytInitialData\s*=\s*({.+?});\s*<\/script/s);
+  if (!inline) throw new Error(`Could not read the ${kind} page`);
+  let data: InitialData;
+  try {
+    data = JSON.parse(inline[1]);
+  } catch {
+    throw new Error(`Could not read the ${kind} page`);
+  }
+  const alert = data?.alerts?.[0]?.alertRenderer;
+  if (alert?.type === "ERROR") throw new Error(label(alert.text) || `This ${kind} is unavailable`);
+
+  const title =
+    data?.metadata?.playlistMetadataRenderer?.title ??
+    data?.metadata?.channelMetadataRenderer?.title ??
+    page.title ??
+    "Untitled";
+
+  const videos: ListedVideo[] = [];
+  let tokens: string[] = [];
+  collectVideos(data?.contents, videos, tokens);
+  while (videos.length < limit && tokens.length) {
+    const next = await innertube<BrowseResponse>("browse", page, { context: { client: WEB_CLIENT }, continuation: tokens[0] });
+    const before = videos.length;
+    tokens = [];
+    collectVideos(next?.onResponseReceivedActions ?? next?.onResponseReceivedEndpoints, videos, tokens);
+    if (videos.length === before) break;
+  }
+  return { title, kind, url: canonical, videos: videos.slice(0, limit) };
+}